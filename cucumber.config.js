@@ -1,3 +1,7 @@
+// Matrix runs (utils/matrixRunner.ts) write one result file per browser/device
+const jsonReport = process.env.CUCUMBER_JSON_REPORT || 'reports/cucumber/cucumber-report.json';
+const htmlReport = jsonReport.replace(/\.json$/, '.html');
+
 module.exports = {
   default: {
     require: [
@@ -7,8 +11,8 @@ module.exports = {
     requireModule: ['ts-node/register'],
     format: [
       'progress-bar',
-      'json:reports/cucumber/cucumber-report.json',
-      'html:reports/cucumber/cucumber-report.html',
+      `json:${jsonReport}`,
+      `html:${htmlReport}`,
       '@cucumber/pretty-formatter'
     ],
     formatOptions: {
@@ -0,0 +1,75 @@
+@common-steps
+Feature: Common steps against a demo app
+  As a framework maintainer
+  I want the common steps exercised against a small mocked app
+  So that regressions in them are caught without a real application
+
+  Background:
+    Given the API "https://demo.test/app" returns fixture "demo/app.html"
+    And the API "https://demo.test/terms" returns fixture "demo/terms.html"
+    And I navigate to "https://demo.test/app"
+
+  @tabs
+  Scenario: Open a link in a new tab and close it again
+    When I click on "open-terms"
+    And I switch to the new tab
+    Then the page title should be "Demo terms"
+    And there should be 2 tabs open
+    When I close the current tab
+    Then there should be 1 tab open
+    And the page title should be "Demo quote app"
+
+  @downloads
+  Scenario: Download the quotes as CSV
+    When I click "download-quotes" and a download starts
+    Then the downloaded file should be named "quotes.csv"
+    And the downloaded CSV should have 2 rows
+    And the downloaded CSV should contain a row with:
+      | Quote   | Q-1001 |
+      | Premium | 420.00 |
+
+  @uploads
+  Scenario: Upload claim documents through a field and a file chooser
+    When I upload a generated "pdf" file of 50 KB to the "Claim documents" field
+    Then I should see "generated-50kb.pdf"
+    When I click "attach-photo" and upload a generated "png" file of 20 KB
+    Then I should see "generated-20kb.png"
+
+  @dialogs
+  Scenario: Answer confirm and prompt dialogs
+    When I will accept the next dialog
+    And I click the "Delete quote" button
+    Then a dialog with message "Delete this quote?" should have appeared
+    And I should see "Quote deleted"
+    When I will answer the next prompt with "Jane"
+    And I click the "Rename quote" button
+    Then a dialog with message "New quote name" should have appeared
+    And I should see "Renamed to Jane"
+
+  @frames
+  Scenario: Enter a card number inside the payment frame
+    When within the frame "payment"
+    And I enter "4111 1111 1111 1111" in the "Card number" field
+    Then the "Card number" field should contain "4111 1111 1111 1111"
+    When I exit the frame
+    Then I should see "Demo quote app"
+
+  @forms
+  Scenario: Fill the quote request form from a generated customer
+    Given I generate a random customer
+    When I fill the form with:
+      | field        | value                                        |
+      | First name   | {{generatedCustomer.personalInfo.firstName}} |
+      | Email        | {{generatedCustomer.personalInfo.email}}     |
+      | State        | New York                                     |
+      | Coverage     | Comprehensive                                |
+      | Start date   | in 7 days                                    |
+      | Accept terms | yes                                          |
+    Then the form should contain:
+      | field        | value                                        |
+      | First name   | {{generatedCustomer.personalInfo.firstName}} |
+      | Email        | {{generatedCustomer.personalInfo.email}}     |
+      | State        | New York                                     |
+      | Coverage     | Comprehensive                                |
+      | Start date   | in 7 days                                    |
+      | Accept terms | yes                                          |
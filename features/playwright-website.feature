@@ -15,4 +15,11 @@ Feature: Playwright Website Basic Testing
   @demo @navigation
   Scenario: Navigate to documentation
     Given I am on the Playwright homepage
-    When I wait for 5 seconds
\ No newline at end of file
+    When I wait for 5 seconds
+
+  @demo @navigation
+  Scenario: Open documentation through element aliases
+    Given I am on the Playwright homepage
+    Then I should see "Main heading" element
+    When I click on "Docs link"
+    Then the URL should contain "docs"
\ No newline at end of file
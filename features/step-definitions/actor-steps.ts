@@ -0,0 +1,46 @@
+import { Given, When } from '@cucumber/cucumber';
+import { CustomWorld } from '../../support/testContext';
+
+// Actor setup steps - every actor gets its own isolated browser context
+Given(
+  'an actor {string} with the {string} role',
+  async function (this: CustomWorld, actorName: string, role: string) {
+    await this.addActor(actorName, role);
+  }
+);
+
+Given(
+  'a logged-in actor {string} with the {string} role',
+  async function (this: CustomWorld, actorName: string, role: string) {
+    await this.addActor(actorName, role, true);
+  }
+);
+
+Given('an actor {string}', async function (this: CustomWorld, actorName: string) {
+  await this.addActor(actorName);
+});
+
+// Actor switching steps
+When('I act as the {word}', async function (this: CustomWorld, actorName: string) {
+  await this.switchActor(actorName);
+});
+
+When('I act as {string}', async function (this: CustomWorld, actorName: string) {
+  await this.switchActor(actorName);
+});
+
+// Credential steps for the current actor
+When(
+  'I enter my {word} in the {string} field',
+  async function (this: CustomWorld, credential: string, fieldName: string) {
+    const { credentials, name } = this.getCurrentActor();
+    const value = credentials[credential];
+    if (value === undefined) {
+      throw new Error(
+        `Actor "${name}" has no "${credential}" credential. Valid keys: ${Object.keys(credentials).join(', ')}`
+      );
+    }
+
+    await this.fillInput(await this.findElement('field', fieldName), value);
+  }
+);
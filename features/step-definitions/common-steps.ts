@@ -1,17 +1,36 @@
-import { Given, When, Then } from '@cucumber/cucumber';
+import { DataTable, Given, When, Then } from '@cucumber/cucumber';
 import { expect } from 'playwright/test';
-import { CustomWorld } from '../../support/testContext';
+import { CustomWorld, FormField } from '../../support/testContext';
+
+// Rows of field name and value; a "| field | value |" header row is optional
+function parseFormTable(dataTable: DataTable): FormField[] {
+  const rows = dataTable.raw();
+  const [header] = rows;
+  const hasHeader =
+    header?.length === 2 &&
+    header[0].trim().toLowerCase() === 'field' &&
+    header[1].trim().toLowerCase() === 'value';
+
+  return rows.slice(hasHeader ? 1 : 0).map(row => {
+    if (row.length !== 2) {
+      throw new Error(`Form table rows need a field and a value, got: | ${row.join(' | ')} |`);
+    }
+    return { name: row[0].trim(), value: row[1] };
+  });
+}
 
 // Common navigation steps
 Given('I am on the {string} page', async function (this: CustomWorld, pageName: string) {
   await this.initializePage();
-  const pageUrl = this.getPageUrl(pageName);
-  await this.navigateToPage(pageUrl);
+  await this.openPage(pageName);
 });
 
 When('I navigate to the {string} page', async function (this: CustomWorld, pageName: string) {
-  const pageUrl = this.getPageUrl(pageName);
-  await this.navigateToPage(pageUrl);
+  await this.openPage(pageName);
+});
+
+Then('I should be on the {string} page', async function (this: CustomWorld, pageName: string) {
+  await this.verifyPage(pageName);
 });
 
 When('I navigate to {string}', async function (this: CustomWorld, url: string) {
@@ -30,93 +49,205 @@ When('I go forward', async function (this: CustomWorld) {
   await this.goForward();
 });
 
+// Tab and popup steps
+When('I switch to the new tab', async function (this: CustomWorld) {
+  await this.switchToNewTab();
+});
+
+When('I switch to the popup', async function (this: CustomWorld) {
+  await this.switchToNewTab();
+});
+
+When('I switch to the tab titled {string}', async function (this: CustomWorld, title: string) {
+  await this.switchToTabTitled(title);
+});
+
+When('I switch to tab {int}', async function (this: CustomWorld, index: number) {
+  await this.switchToTab(index);
+});
+
+When('I close the current tab', async function (this: CustomWorld) {
+  await this.closeCurrentTab();
+});
+
+Then('there should be {int} tab(s) open', async function (this: CustomWorld, count: number) {
+  await expect
+    .poll(() => this.getOpenTabs().length, { timeout: this.getPollTimeout() })
+    .toBe(count);
+});
+
+// Frame steps
+When('within the frame {string}', async function (this: CustomWorld, frame: string) {
+  await this.enterFrame(frame);
+});
+
+When('I exit the frame', async function (this: CustomWorld) {
+  this.exitFrame();
+});
+
 // Common element interaction steps
 When('I click on {string}', async function (this: CustomWorld, selector: string) {
-  await this.clickElement(selector);
+  await this.clickElement(await this.findElement('element', selector));
 });
 
 When('I click the {string} button', async function (this: CustomWorld, buttonName: string) {
-  const selector = `[data-testid="${buttonName.toLowerCase()}-button"], button:has-text("${buttonName}")`;
-  await this.clickElement(selector);
+  await this.clickElement(await this.findElement('button', buttonName));
 });
 
 When(
   'I enter {string} in the {string} field',
   async function (this: CustomWorld, text: string, fieldName: string) {
-    const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"], input[placeholder*="${fieldName}"]`;
-    await this.fillInput(selector, text);
+    await this.fillInput(await this.findElement('field', fieldName), text);
   }
 );
 
 When(
   'I enter {string} in {string}',
   async function (this: CustomWorld, text: string, selector: string) {
-    await this.fillInput(selector, text);
+    await this.fillInput(await this.findElement('element', selector), text);
   }
 );
 
 When('I clear the {string} field', async function (this: CustomWorld, fieldName: string) {
-  const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"]`;
-  await this.fillInput(selector, '');
+  await this.fillInput(await this.findElement('field', fieldName), '');
 });
 
 When(
   'I select {string} from {string} dropdown',
   async function (this: CustomWorld, option: string, fieldName: string) {
-    const selector = `[data-testid="${fieldName.toLowerCase()}-select"], select[name="${fieldName}"]`;
-    await this.selectOption(selector, option);
+    await this.selectOption(await this.findElement('dropdown', fieldName), option);
   }
 );
 
 When('I check the {string} checkbox', async function (this: CustomWorld, checkboxName: string) {
-  const selector = `[data-testid="${checkboxName.toLowerCase()}-checkbox"], input[type="checkbox"][name="${checkboxName}"]`;
-  await this.checkCheckbox(selector);
+  await this.checkCheckbox(await this.findElement('checkbox', checkboxName));
 });
 
 When('I uncheck the {string} checkbox', async function (this: CustomWorld, checkboxName: string) {
-  const selector = `[data-testid="${checkboxName.toLowerCase()}-checkbox"], input[type="checkbox"][name="${checkboxName}"]`;
-  await this.uncheckCheckbox(selector);
+  await this.uncheckCheckbox(await this.findElement('checkbox', checkboxName));
+});
+
+// Mouse steps
+When('I hover over {string}', async function (this: CustomWorld, selector: string) {
+  await this.hoverElement(await this.findElement('element', selector));
+});
+
+When('I hover over the {string} button', async function (this: CustomWorld, buttonName: string) {
+  await this.hoverElement(await this.findElement('button', buttonName));
+});
+
+When('I double click on {string}', async function (this: CustomWorld, selector: string) {
+  await this.doubleClickElement(await this.findElement('element', selector));
+});
+
+When('I double click the {string} button', async function (this: CustomWorld, buttonName: string) {
+  await this.doubleClickElement(await this.findElement('button', buttonName));
+});
+
+When('I right click on {string}', async function (this: CustomWorld, selector: string) {
+  await this.rightClickElement(await this.findElement('element', selector));
+});
+
+When(
+  'I drag {string} to {string}',
+  async function (this: CustomWorld, source: string, target: string) {
+    await this.dragAndDrop(
+      await this.findElement('element', source),
+      await this.findElement('element', target)
+    );
+  }
+);
+
+// Keyboard and focus steps
+When('I press {string}', async function (this: CustomWorld, key: string) {
+  await this.pressKey(key);
+});
+
+When(
+  'I press {string} in the {string} field',
+  async function (this: CustomWorld, key: string, fieldName: string) {
+    await this.pressKey(key, await this.findElement('field', fieldName));
+  }
+);
+
+When(
+  'I type {string} in the {string} field',
+  async function (this: CustomWorld, text: string, fieldName: string) {
+    await this.typeText(await this.findElement('field', fieldName), text);
+  }
+);
+
+When(
+  'I type {string} in the {string} field with a delay of {int} ms',
+  async function (this: CustomWorld, text: string, fieldName: string, delay: number) {
+    await this.typeText(await this.findElement('field', fieldName), text, delay);
+  }
+);
+
+When('I focus on the {string} field', async function (this: CustomWorld, fieldName: string) {
+  await this.focusElement(await this.findElement('field', fieldName));
+});
+
+When('I blur the {string} field', async function (this: CustomWorld, fieldName: string) {
+  await this.blurElement(await this.findElement('field', fieldName));
+});
+
+Then('the {string} field should be focused', async function (this: CustomWorld, fieldName: string) {
+  await expect(await this.findElement('field', fieldName)).toBeFocused();
+});
+
+// Form steps - the type of each field (text, select, checkbox, radio, date) is detected
+When('I fill the form with:', async function (this: CustomWorld, dataTable: DataTable) {
+  await this.fillForm(parseFormTable(dataTable));
+});
+
+Then('the form should contain:', async function (this: CustomWorld, dataTable: DataTable) {
+  const mismatches = await this.verifyForm(parseFormTable(dataTable));
+  if (mismatches.length > 0) {
+    throw new Error(`Form does not match:\n${mismatches.join('\n')}`);
+  }
 });
 
 // Common verification steps
 Then('I should see {string}', async function (this: CustomWorld, text: string) {
-  await expect(this.page.locator(`text="${text}"`)).toBeVisible();
+  await expect(this.locator(`text="${text}"`)).toBeVisible();
 });
 
 Then('I should see the text {string}', async function (this: CustomWorld, text: string) {
-  await expect(this.page.locator(`text="${text}"`)).toBeVisible();
+  await expect(this.locator(`text="${text}"`)).toBeVisible();
 });
 
 Then('I should not see {string}', async function (this: CustomWorld, text: string) {
-  await expect(this.page.locator(`text="${text}"`)).not.toBeVisible();
+  await expect(this.locator(`text="${text}"`)).not.toBeVisible();
 });
 
 Then('I should see {string} element', async function (this: CustomWorld, selector: string) {
-  await expect(this.page.locator(selector)).toBeVisible();
+  await expect(await this.findElement('element', selector)).toBeVisible();
 });
 
 Then('I should not see {string} element', async function (this: CustomWorld, selector: string) {
-  await expect(this.page.locator(selector)).not.toBeVisible();
+  await expect(await this.findElementNow('element', selector)).not.toBeVisible();
 });
 
 Then(
   'the {string} field should contain {string}',
   async function (this: CustomWorld, fieldName: string, expectedValue: string) {
-    const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"]`;
-    await expect(this.page.locator(selector)).toHaveValue(expectedValue);
+    await expect(await this.findElement('field', fieldName)).toHaveValue(expectedValue);
   }
 );
 
 Then('the {string} field should be empty', async function (this: CustomWorld, fieldName: string) {
-  const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"]`;
-  await expect(this.page.locator(selector)).toHaveValue('');
+  await expect(await this.findElement('field', fieldName)).toHaveValue('');
 });
 
 Then(
   'the {string} button should be {string}',
   async function (this: CustomWorld, buttonName: string, state: string) {
-    const selector = `[data-testid="${buttonName.toLowerCase()}-button"], button:has-text("${buttonName}")`;
-    const locator = this.page.locator(selector);
+    // A hidden button may not be found by every strategy, so do not wait for it
+    const locator =
+      state.toLowerCase() === 'hidden'
+        ? await this.findElementNow('button', buttonName)
+        : await this.findElement('button', buttonName);
 
     switch (state.toLowerCase()) {
       case 'enabled':
@@ -171,11 +302,12 @@ When('I wait for {int} milliseconds', async function (this: CustomWorld, millise
 });
 
 When('I wait for {string} to be visible', async function (this: CustomWorld, selector: string) {
-  await this.waitForElement(selector);
+  await this.waitForElement(await this.findElement('element', selector));
 });
 
 When('I wait for {string} to disappear', async function (this: CustomWorld, selector: string) {
-  await this.page.waitForSelector(selector, { state: 'detached' });
+  const element = await this.findElementNow('element', selector);
+  await element.waitFor({ state: 'detached' });
 });
 
 // Screenshot steps
@@ -190,23 +322,22 @@ When('I take a screenshot named {string}', async function (this: CustomWorld, na
 
 // Scroll steps
 When('I scroll to {string}', async function (this: CustomWorld, selector: string) {
-  await this.page.locator(selector).scrollIntoViewIfNeeded();
+  await (await this.findElement('element', selector)).scrollIntoViewIfNeeded();
 });
 
 When('I scroll to the top of the page', async function (this: CustomWorld) {
-  await this.page.evaluate(() => window.scrollTo(0, 0));
+  await this.locator('html').evaluate(() => window.scrollTo(0, 0));
 });
 
 When('I scroll to the bottom of the page', async function (this: CustomWorld) {
-  await this.page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+  await this.locator('html').evaluate(() => window.scrollTo(0, document.body.scrollHeight));
 });
 
 // Data validation steps
 Then(
   'the {string} field should have a valid email',
   async function (this: CustomWorld, fieldName: string) {
-    const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"]`;
-    const value = await this.page.locator(selector).inputValue();
+    const value = await (await this.findElement('field', fieldName)).inputValue();
     const isValid = this.validateEmail(value);
     expect(isValid).toBe(true);
   }
@@ -215,8 +346,7 @@ Then(
 Then(
   'the {string} field should have a valid phone number',
   async function (this: CustomWorld, fieldName: string) {
-    const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"]`;
-    const value = await this.page.locator(selector).inputValue();
+    const value = await (await this.findElement('field', fieldName)).inputValue();
     const isValid = this.validatePhone(value);
     expect(isValid).toBe(true);
   }
@@ -225,8 +355,7 @@ Then(
 Then(
   'the {string} field should have a valid SSN',
   async function (this: CustomWorld, fieldName: string) {
-    const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"]`;
-    const value = await this.page.locator(selector).inputValue();
+    const value = await (await this.findElement('field', fieldName)).inputValue();
     const isValid = this.validateSSN(value);
     expect(isValid).toBe(true);
   }
@@ -235,8 +364,7 @@ Then(
 Then(
   'the {string} field should have a valid zip code',
   async function (this: CustomWorld, fieldName: string) {
-    const selector = `[data-testid="${fieldName.toLowerCase()}-input"], input[name="${fieldName}"]`;
-    const value = await this.page.locator(selector).inputValue();
+    const value = await (await this.findElement('field', fieldName)).inputValue();
     const isValid = this.validateZipCode(value);
     expect(isValid).toBe(true);
   }
@@ -0,0 +1,35 @@
+import { Then, When } from '@cucumber/cucumber';
+import { expect } from 'playwright/test';
+import { CustomWorld } from '../../support/testContext';
+
+// Dialog steps - plan the answer before the step that opens the dialog;
+// alert, confirm and prompt dialogs nobody planned for are dismissed
+When('I will accept the next dialog', async function (this: CustomWorld) {
+  this.expectDialog('accept');
+});
+
+When('I will dismiss the next dialog', async function (this: CustomWorld) {
+  this.expectDialog('dismiss');
+});
+
+When(
+  'I will answer the next prompt with {string}',
+  async function (this: CustomWorld, answer: string) {
+    this.expectDialog('accept', this.interpolate(answer));
+  }
+);
+
+Then(
+  'a dialog with message {string} should have appeared',
+  async function (this: CustomWorld, message: string) {
+    await expect
+      .poll(() => this.findDialogs(message).length, { timeout: this.getPollTimeout() })
+      .toBeGreaterThan(0)
+      .catch(() => {
+        const messages = this.dialogs.map(dialog => `"${dialog.message}"`);
+        throw new Error(
+          `No dialog with message "${message}" appeared. Dialogs: ${messages.join(', ') || 'none'}`
+        );
+      });
+  }
+);
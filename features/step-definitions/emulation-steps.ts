@@ -0,0 +1,27 @@
+import { Given, When } from '@cucumber/cucumber';
+import { CustomWorld } from '../../support/testContext';
+import { DateHelper } from '../../utils/dateHelper';
+
+// Geolocation steps - change the current actor's location mid-scenario (see also the @geo: tag)
+Given(
+  'my location is {float}, {float}',
+  async function (this: CustomWorld, latitude: number, longitude: number) {
+    await this.setGeolocation(latitude, longitude);
+  }
+);
+
+Given('my location is unavailable', async function (this: CustomWorld) {
+  await this.clearGeolocation();
+});
+
+// Clock steps - freeze "today" for the browser, DateHelper and generated test data
+Given('the current date is {string}', async function (this: CustomWorld, date: string) {
+  await this.setCurrentDate(date);
+});
+
+When(
+  'time advances by {int} {word}',
+  async function (this: CustomWorld, amount: number, unit: string) {
+    await this.advanceTime(amount, DateHelper.parseTimeUnit(unit));
+  }
+);
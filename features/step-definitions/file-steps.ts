@@ -0,0 +1,112 @@
+import { DataTable, Then, When } from '@cucumber/cucumber';
+import path from 'path';
+import { expect } from 'playwright/test';
+import { CustomWorld } from '../../support/testContext';
+import { FileHelper } from '../../utils/fileHelper';
+
+// Download steps - downloads are saved under reports/downloads/<scenario>/ and attached to the report
+When(
+  'I click {string} and a download starts',
+  async function (this: CustomWorld, selector: string) {
+    await this.clickAndWaitForDownload(await this.findElement('element', selector));
+  }
+);
+
+Then(
+  'the downloaded file should be named {string}',
+  async function (this: CustomWorld, fileName: string) {
+    expect(this.getLastDownload().fileName).toBe(this.interpolate(fileName));
+  }
+);
+
+// {word} is file, CSV, JSON or PDF; PDFs are checked against the text they display
+Then(
+  'the downloaded {word} should contain {string}',
+  async function (this: CustomWorld, fileType: string, text: string) {
+    const { fileName } = this.getLastDownload();
+    const extension = path.extname(fileName).slice(1).toLowerCase();
+    if (fileType.toLowerCase() !== 'file' && fileType.toLowerCase() !== extension) {
+      throw new Error(`The last download is ${fileName}, not a ${fileType} file`);
+    }
+
+    const content = this.readDownloadText().replace(/\s+/g, ' ');
+    expect(content, `Content of ${fileName}`).toContain(this.interpolate(text));
+  }
+);
+
+Then(
+  'the downloaded CSV should have {int} row(s)',
+  async function (this: CustomWorld, count: number) {
+    expect(this.readDownloadedCsv()).toHaveLength(count);
+  }
+);
+
+Then(
+  'the downloaded CSV should contain a row with:',
+  async function (this: CustomWorld, dataTable: DataTable) {
+    const expected = Object.entries(dataTable.rowsHash()).map(
+      ([column, value]) => [column, this.interpolate(value)] as const
+    );
+    const rows = this.readDownloadedCsv();
+    const match = rows.some(row => expected.every(([column, value]) => row[column] === value));
+
+    if (!match) {
+      throw new Error(
+        `No row of ${this.getLastDownload().fileName} has ${expected
+          .map(([column, value]) => `${column}=${value}`)
+          .join(', ')}. Columns: ${Object.keys(rows[0] || {}).join(', ')}`
+      );
+    }
+  }
+);
+
+Then('the downloaded JSON should match:', async function (this: CustomWorld, docString: string) {
+  const expected = JSON.parse(this.interpolate(docString));
+  const actual = JSON.parse(this.readDownloadText());
+  if (!this.matchesPartially(expected, actual)) {
+    throw new Error(
+      `${this.getLastDownload().fileName} does not match ${JSON.stringify(expected)}.\n` +
+        `Actual: ${JSON.stringify(actual)}`
+    );
+  }
+});
+
+// Upload steps - files are looked up as given, then in fixtures/uploads/ and fixtures/
+When(
+  'I upload {string} to the {string} field',
+  async function (this: CustomWorld, fileName: string, field: string) {
+    await this.uploadFile(fileName, field);
+  }
+);
+
+When(
+  'I upload a generated {string} file of {int} KB to the {string} field',
+  async function (this: CustomWorld, fileType: string, sizeKb: number, field: string) {
+    await this.uploadFile(FileHelper.generateFile(fileType, sizeKb), field);
+  }
+);
+
+// Without a field name the page must have exactly one file input
+When(
+  'I upload a generated {string} file of {int} KB',
+  async function (this: CustomWorld, fileType: string, sizeKb: number) {
+    await this.uploadFile(FileHelper.generateFile(fileType, sizeKb));
+  }
+);
+
+When(
+  'I click {string} and upload {string}',
+  async function (this: CustomWorld, selector: string, fileName: string) {
+    await this.uploadViaFileChooser(await this.findElement('element', selector), fileName);
+  }
+);
+
+When(
+  'I click {string} and upload a generated {string} file of {int} KB',
+  async function (this: CustomWorld, selector: string, fileType: string, sizeKb: number) {
+    await this.uploadViaFileChooser(
+      await this.findElement('element', selector),
+      FileHelper.generateFile(fileType, sizeKb)
+    );
+  }
+);
@@ -0,0 +1,77 @@
+import { Given, Then } from '@cucumber/cucumber';
+import { expect } from 'playwright/test';
+import { CustomWorld } from '../../support/testContext';
+
+// Network mocking steps - mocks are cleared automatically after each scenario
+Given(
+  'the API {string} returns fixture {string} with status {int}',
+  async function (this: CustomWorld, api: string, fixtureName: string, status: number) {
+    await this.mockApiWithFixture(api, fixtureName, status);
+  }
+);
+
+Given(
+  'the API {string} returns fixture {string}',
+  async function (this: CustomWorld, api: string, fixtureName: string) {
+    await this.mockApiWithFixture(api, fixtureName);
+  }
+);
+
+Given(
+  'the API {string} fails with a network error',
+  async function (this: CustomWorld, api: string) {
+    await this.mockApiNetworkError(api);
+  }
+);
+
+Given(
+  'the API {string} is delayed by {int} ms',
+  async function (this: CustomWorld, api: string, ms: number) {
+    await this.delayApi(api, ms);
+  }
+);
+
+// Network traffic assertions - every request of the scenario is recorded, for all actors
+Then(
+  'a {string} request to {string} should have been sent',
+  async function (this: CustomWorld, method: string, api: string) {
+    await expect
+      .poll(() => this.findRequests(api, method).length, {
+        message: `Expected a ${method} request to ${api}`,
+        timeout: this.getPollTimeout(),
+      })
+      .toBeGreaterThan(0);
+  }
+);
+
+Then(
+  'the request body to {string} should match:',
+  async function (this: CustomWorld, api: string, docString: string) {
+    const expected = JSON.parse(this.interpolate(docString));
+
+    await expect
+      .poll(
+        () => this.findRequests(api).some(request => this.matchesPartially(expected, request.body)),
+        { timeout: this.getPollTimeout() }
+      )
+      .toBe(true)
+      .catch(() => {
+        const bodies = this.findRequests(api).map(request => JSON.stringify(request.body));
+        throw new Error(
+          `No request to ${api} had a body matching ${JSON.stringify(expected)}.\n` +
+            (bodies.length ? `Bodies sent:\n${bodies.join('\n')}` : 'No matching request was sent')
+        );
+      });
+  }
+);
+
+Then(
+  'no request to {string} should have been made',
+  async function (this: CustomWorld, api: string) {
+    const requests = this.findRequests(api);
+    expect(
+      requests.map(request => `${request.method} ${request.url}`),
+      `Expected no request to ${api}`
+    ).toEqual([]);
+  }
+);
@@ -0,0 +1,107 @@
+import { DataTable, Given, When, Then } from '@cucumber/cucumber';
+import { expect } from 'playwright/test';
+import { CustomWorld, StorageType } from '../../support/testContext';
+
+function parseStorageType(type: string): StorageType {
+  const storageType = type.toLowerCase();
+  if (storageType !== 'local' && storageType !== 'session') {
+    throw new Error(`Unknown storage: ${type}. Use local or session`);
+  }
+  return storageType;
+}
+
+// Cookie steps - act on the current actor's context
+Given(
+  'the cookie {string} is set to {string}',
+  async function (this: CustomWorld, name: string, value: string) {
+    await this.setCookie(name, value);
+  }
+);
+
+Given(
+  'the cookie {string} is set to {string} with:',
+  async function (this: CustomWorld, name: string, value: string, dataTable: DataTable) {
+    await this.setCookie(name, value, this.parseCookieOptions(dataTable.rowsHash()));
+  }
+);
+
+When('I clear the cookie {string}', async function (this: CustomWorld, name: string) {
+  await this.clearCookies(name);
+});
+
+When('I clear all cookies', async function (this: CustomWorld) {
+  await this.clearCookies();
+});
+
+Then(
+  'the cookie {string} should be {string}',
+  async function (this: CustomWorld, name: string, value: string) {
+    await expect
+      .poll(async () => (await this.getCookie(name))?.value, { timeout: this.getPollTimeout() })
+      .toBe(value);
+  }
+);
+
+Then('the cookie {string} should not exist', async function (this: CustomWorld, name: string) {
+  await expect
+    .poll(async () => await this.getCookie(name), { timeout: this.getPollTimeout() })
+    .toBeUndefined();
+});
+
+Then(
+  'the cookie {string} should have:',
+  async function (this: CustomWorld, name: string, dataTable: DataTable) {
+    const cookie = await this.getCookie(name);
+    if (!cookie) {
+      throw new Error(`Cookie "${name}" is not set`);
+    }
+    const mismatches = this.getCookieMismatches(cookie, dataTable.rowsHash());
+    if (mismatches.length > 0) {
+      throw new Error(`Cookie "${name}" does not match:\n${mismatches.join('\n')}`);
+    }
+  }
+);
+
+// Web storage steps - "local" or "session" storage of the current tab
+Given(
+  'the {word} storage item {string} is set to {string}',
+  async function (this: CustomWorld, type: string, key: string, value: string) {
+    await this.setStorageItem(parseStorageType(type), key, value);
+  }
+);
+
+When(
+  'I remove the {word} storage item {string}',
+  async function (this: CustomWorld, type: string, key: string) {
+    await this.removeStorageItem(parseStorageType(type), key);
+  }
+);
+
+When('I clear the {word} storage', async function (this: CustomWorld, type: string) {
+  await this.clearStorage(parseStorageType(type));
+});
+
+Then(
+  'the {word} storage item {string} should be {string}',
+  async function (this: CustomWorld, type: string, key: string, value: string) {
+    const storageType = parseStorageType(type);
+    await expect
+      .poll(() => this.getStorageItem(storageType, key), { timeout: this.getPollTimeout() })
+      .toBe(value);
+  }
+);
+
+Then(
+  'the {word} storage item {string} should not exist',
+  async function (this: CustomWorld, type: string, key: string) {
+    const storageType = parseStorageType(type);
+    await expect
+      .poll(() => this.getStorageItem(storageType, key), { timeout: this.getPollTimeout() })
+      .toBeNull();
+  }
+);
+
+// Debug step - attaches cookies, localStorage and sessionStorage as storage.json
+When('I attach the cookies and storage to the report', async function (this: CustomWorld) {
+  await this.attachStorage();
+});
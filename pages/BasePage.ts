@@ -1,6 +1,13 @@
 import { Page, Locator } from 'playwright';
+import configManager from '../utils/configManager';
 
 export class BasePage {
+  // Name and path (relative to BASE_URL) used by "I am on the {string} page", see pages/index.ts
+  static readonly pageName?: string;
+  static readonly path?: string;
+  // Business names for elements, e.g. "Get Quote button", usable in every common step
+  static readonly elements?: Record<string, string>;
+
   protected page: Page;
 
   constructor(page: Page) {
@@ -11,6 +18,25 @@ export class BasePage {
     await this.page.goto(url);
   }
 
+  // Opens the page at its declared path
+  async open(): Promise<void> {
+    const { path } = this.constructor as typeof BasePage;
+    if (path === undefined) {
+      throw new Error(`${this.constructor.name} does not declare a path`);
+    }
+    await this.navigate(`${configManager.getTestConfig().baseURL}${path}`);
+  }
+
+  // Page objects override this with a check of their own, e.g. a heading being visible
+  async isLoaded(): Promise<boolean> {
+    const { path } = this.constructor as typeof BasePage;
+    if (path === undefined) {
+      return true;
+    }
+    const expectedPath = path.split(/[?#]/)[0].replace(/\/$/, '');
+    return new URL(this.page.url()).pathname.replace(/\/$/, '').endsWith(expectedPath);
+  }
+
   async getTitle(): Promise<string> {
     return await this.page.title();
   }
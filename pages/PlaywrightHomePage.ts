@@ -3,6 +3,14 @@ import { Page, Locator } from 'playwright';
 import browserManager from '../utils/browserManager';
 
 export class PlaywrightHomePage extends BasePage {
+  static readonly pageName = 'home';
+  static readonly path = '/';
+  static readonly elements = {
+    // The site has several Docs links; the first is the one in the navbar
+    'Docs link': 'a:has-text("Docs") >> nth=0',
+    'Main heading': 'h1',
+  };
+
   public readonly docsLink: Locator;
   public readonly mainHeading: Locator;
   public readonly heroText: Locator;
@@ -21,7 +29,11 @@ export class PlaywrightHomePage extends BasePage {
   }
 
   async navigateToHomePage(): Promise<void> {
-    await this.navigate('https://playwright.dev');
+    await this.open();
+  }
+
+  async isLoaded(): Promise<boolean> {
+    return await this.mainHeading.isVisible();
   }
 
   async clickDocsLink(): Promise<void> {
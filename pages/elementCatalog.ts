@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import pageRegistry from './index';
+import { PageObjectClass } from './pageRegistry';
+
+export interface ElementAlias {
+  alias: string;
+  selector: string;
+  // The page object class that declares the alias
+  definedIn: string;
+}
+
+export interface CatalogReport {
+  aliasCount: number;
+  duplicates: string[];
+  unused: string[];
+}
+
+const KIND_WORDS = ['button', 'field', 'dropdown', 'checkbox'];
+
+/**
+ * The element aliases page objects declare in their static `elements`. Aliases
+ * are matched ignoring case and extra spaces, and "the {string} button" style
+ * steps also match the alias with the kind word appended ("Get Quote button").
+ */
+export class ElementCatalog {
+  static normalize(alias: string): string {
+    return alias.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  // Aliases of a page, including those of its base classes (base classes first)
+  static getAliases(pageClass: PageObjectClass): ElementAlias[] {
+    const chain: PageObjectClass[] = [];
+    for (
+      let current: PageObjectClass | null = pageClass;
+      current && current !== Function.prototype;
+      current = Object.getPrototypeOf(current)
+    ) {
+      if (Object.prototype.hasOwnProperty.call(current, 'elements')) {
+        chain.unshift(current);
+      }
+    }
+
+    return chain.flatMap(current =>
+      Object.entries(current.elements || {}).map(([alias, selector]) => ({
+        alias,
+        selector,
+        definedIn: current.name,
+      }))
+    );
+  }
+
+  // Subclasses win over base classes; names are tried in order
+  static lookup(pageClass: PageObjectClass, names: string[]): ElementAlias | undefined {
+    const aliases = this.getAliases(pageClass).reverse();
+    for (const name of names) {
+      const key = this.normalize(name);
+      const match = aliases.find(entry => this.normalize(entry.alias) === key);
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reports aliases a page object defines twice (differing only in case or
+   * spacing) and aliases no feature file mentions, either quoted in a step
+   * ("Docs link", or "Get Quote" before "button") or in a data table cell. A
+   * subclass redefining an inherited alias overrides it and is not a duplicate.
+   */
+  static validate(featureDir: string = 'features'): CatalogReport {
+    const used = this.collectUsedNames(featureDir);
+    const report: CatalogReport = { aliasCount: 0, duplicates: [], unused: [] };
+
+    pageRegistry.getPages().forEach(pageClass => {
+      const seen = new Map<string, ElementAlias>();
+      this.getAliases(pageClass).forEach(entry => {
+        const key = this.normalize(entry.alias);
+        const previous = seen.get(key);
+        if (previous?.definedIn === entry.definedIn) {
+          report.duplicates.push(
+            `${pageClass.pageName}: "${previous.alias}" and "${entry.alias}" are both defined ` +
+              `by ${entry.definedIn}`
+          );
+          return;
+        }
+        seen.set(key, entry);
+      });
+
+      seen.forEach((entry, key) => {
+        report.aliasCount++;
+        if (!used.has(key)) {
+          report.unused.push(`${pageClass.pageName}: "${entry.alias}" (${entry.definedIn})`);
+        }
+      });
+    });
+
+    return report;
+  }
+
+  private static collectUsedNames(featureDir: string): Set<string> {
+    const used = new Set<string>();
+    const add = (name: string) => used.add(this.normalize(name));
+
+    this.findFeatureFiles(featureDir).forEach(file => {
+      fs.readFileSync(file, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .forEach(line => {
+          if (line.startsWith('|')) {
+            line
+              .split('|')
+              .slice(1, -1)
+              .forEach(cell => add(cell));
+            return;
+          }
+          if (!/^(Given|When|Then|And|But|\*)\s/.test(line)) {
+            return;
+          }
+          const quoted = /"([^"]*)"(?:\s+(\w+))?/g;
+          let match: RegExpExecArray | null;
+          while ((match = quoted.exec(line))) {
+            add(match[1]);
+            if (match[2] && KIND_WORDS.includes(match[2].toLowerCase())) {
+              add(`${match[1]} ${match[2]}`);
+            }
+          }
+        });
+    });
+
+    return used;
+  }
+
+  private static findFeatureFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return this.findFeatureFiles(entryPath);
+      }
+      return entry.name.endsWith('.feature') ? [entryPath] : [];
+    });
+  }
+}
+
+// CLI execution: validate the catalogs against the feature files
+if (require.main === module) {
+  const report = ElementCatalog.validate(process.argv[2]);
+  const pageCount = pageRegistry.getPages().length;
+  console.log(
+    `Element catalog: ${report.aliasCount} alias${report.aliasCount === 1 ? '' : 'es'} ` +
+      `on ${pageCount} page${pageCount === 1 ? '' : 's'}`
+  );
+
+  if (report.duplicates.length > 0) {
+    console.log(`\nDuplicate aliases:\n${report.duplicates.map(line => `  - ${line}`).join('\n')}`);
+  }
+  if (report.unused.length > 0) {
+    console.log(`\nUnused aliases:\n${report.unused.map(line => `  - ${line}`).join('\n')}`);
+  }
+
+  process.exit(report.duplicates.length + report.unused.length > 0 ? 1 : 0);
+}
@@ -0,0 +1,7 @@
+import pageRegistry from './pageRegistry';
+import { PlaywrightHomePage } from './PlaywrightHomePage';
+
+// Register new page objects here to open them with "I am on the {string} page"
+pageRegistry.register(PlaywrightHomePage);
+
+export default pageRegistry;
@@ -0,0 +1,71 @@
+import { Page } from 'playwright';
+import configManager from '../utils/configManager';
+import { BasePage } from './BasePage';
+
+export type PageObjectClass<T extends BasePage = BasePage> = (new (page: Page) => T) & {
+  readonly pageName?: string;
+  readonly path?: string;
+  readonly elements?: Record<string, string>;
+};
+
+/**
+ * Page objects reachable by name from the navigation steps. Each one declares a
+ * static pageName and path; names are case-insensitive.
+ */
+export class PageRegistry {
+  private static instance: PageRegistry;
+  private pages: Map<string, PageObjectClass> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): PageRegistry {
+    if (!PageRegistry.instance) {
+      PageRegistry.instance = new PageRegistry();
+    }
+    return PageRegistry.instance;
+  }
+
+  register(pageClass: PageObjectClass): void {
+    if (!pageClass.pageName || pageClass.path === undefined) {
+      throw new Error(`${pageClass.name} must declare a static pageName and path to be registered`);
+    }
+
+    const key = pageClass.pageName.toLowerCase();
+    const existing = this.pages.get(key);
+    if (existing && existing !== pageClass) {
+      throw new Error(
+        `Page "${pageClass.pageName}" is declared by both ${existing.name} and ${pageClass.name}`
+      );
+    }
+    this.pages.set(key, pageClass);
+  }
+
+  get(pageName: string): PageObjectClass | undefined {
+    return this.pages.get(pageName.toLowerCase());
+  }
+
+  // The registered page whose path matches the URL, for tabs reached by a link or redirect
+  findByUrl(url: string): PageObjectClass | undefined {
+    return [...this.pages.values()].find(pageClass => this.matchesUrl(pageClass, url));
+  }
+
+  // Whether the URL is the page's path under the base URL (ignoring a trailing slash)
+  matchesUrl(pageClass: PageObjectClass, url: string): boolean {
+    if (pageClass.path === undefined || !/^https?:/.test(url)) {
+      return false;
+    }
+    const trim = (pathname: string) => pathname.replace(/\/$/, '');
+    const basePath = trim(new URL(configManager.getTestConfig().baseURL).pathname);
+    return trim(new URL(url).pathname) === basePath + trim(pageClass.path.split(/[?#]/)[0]);
+  }
+
+  getPages(): PageObjectClass[] {
+    return [...this.pages.values()];
+  }
+
+  getNames(): string[] {
+    return [...this.pages.values()].map(pageClass => pageClass.pageName!);
+  }
+}
+
+export default PageRegistry.getInstance();
@@ -1,7 +1,9 @@
 import { Before, After, BeforeAll, AfterAll, Status } from '@cucumber/cucumber';
 import { promises as fs } from 'fs';
+import path from 'path';
 import browserManager from '../utils/browserManager';
 import configManager from '../utils/configManager';
+import consoleMonitor from '../utils/consoleMonitor';
 import { CustomWorld } from './testContext';
 
 // Global setup - runs once before all features
@@ -10,6 +12,12 @@ BeforeAll(async function () {
   console.log(`Environment: ${configManager.getEnvironment()}`);
   console.log(`Base URL: ${configManager.getTestConfig().baseURL}`);
   console.log(`Browser: ${configManager.getBrowserConfig().browser}`);
+  if (configManager.getNetworkConfig().mode !== 'live') {
+    console.log(`Network mode: ${configManager.getNetworkConfig().mode}`);
+  }
+  if (configManager.getBrowserConfig().device) {
+    console.log(`Device: ${configManager.getBrowserConfig().device}`);
+  }
 
   // Validate configuration
   try {
@@ -40,30 +48,39 @@ BeforeAll(async function () {
   console.log(' Report directories created');
 });
 
-// Feature-level setup - runs once per feature file
+// Attempts per pickle, so retried scenarios can be told apart (TRACE_MODE=on-first-retry)
+const scenarioAttempts: Map<string, number> = new Map();
+
+// Feature-level setup - the browser lives for the whole worker, but a shared
+// session (@shared-session) must never leak into the next feature file
 let currentFeatureUri: string | null = null;
 
 Before(async function (scenario) {
   const featureUri = scenario.gherkinDocument?.uri || scenario.pickle.uri;
-  
+
   // Check if this is a new feature file
   if (currentFeatureUri !== featureUri) {
-    // Cleanup previous feature's browser if it exists
-    if (currentFeatureUri && browserManager.isReady()) {
-      console.log(' Cleaning up browser from previous feature...');
-      await browserManager.cleanup();
+    if (currentFeatureUri && browserManager.isSharedSession()) {
+      console.log(' Closing shared session from previous feature...');
+      await browserManager.closeSession();
+    }
+
+    if (!browserManager.isBrowserLaunched()) {
+      console.log(' Launching browser for this worker...');
+      await browserManager.initializeBrowser();
+      console.log(' Browser initialized and ready');
     }
-    
-    // Initialize browser for new feature
-    console.log(` Initializing browser for feature: ${featureUri}`);
-    await browserManager.initializeBrowser();
-    console.log(' Browser initialized and ready');
     currentFeatureUri = featureUri;
   }
 });
 
+// An @as:<role> login in the setup, and writing the trace and videos in the cleanup
+// (a video is only complete once its context has closed), can take far longer than
+// Cucumber's 5s default, so those hooks get the test timeout
+const scenarioHookTimeout = { timeout: configManager.getTestConfig().timeout };
+
 // Scenario setup - runs before each scenario
-Before(async function (this: CustomWorld, scenario) {
+Before(scenarioHookTimeout, async function (this: CustomWorld, scenario) {
   console.log(`\n Starting scenario: "${scenario.pickle.name}"`);
 
   // Store scenario info for reporting
@@ -74,8 +91,30 @@ Before(async function (this: CustomWorld, scenario) {
   );
   this.setScenarioData('startTime', Date.now());
 
-  // Initialize page for this scenario (reusing browser from feature)
-  await this.initializePage();
+  // Open a fresh context for this scenario unless it opts into a shared session,
+  // already logged in when tagged @as:<role> and emulating @device:<name>. Under
+  // NETWORK_MODE=record|replay traffic goes to the feature's HAR unless tagged @har:<name>
+  const sharedSession = scenario.pickle.tags.some(tag => tag.name === '@shared-session');
+  const [role] = this.getTagValues('@as:');
+  const [device] = this.getTagValues('@device:');
+  const [har = path.basename(scenario.pickle.uri, '.feature')] = this.getTagValues('@har:');
+  await this.initializePage({
+    sharedSession,
+    role,
+    device,
+    har,
+    // Regional settings: @locale:en-US @timezone:America/New_York @geo:51.5,-0.12 @permission:notifications
+    locale: this.getTagValues('@locale:')[0],
+    timezone: this.getTagValues('@timezone:')[0],
+    geolocation: this.getTagValues('@geo:')[0],
+    permissions: this.getTagValues('@permission:'),
+  });
+
+  // Start this scenario's trace chunk according to TRACE_MODE
+  const attempt = scenarioAttempts.get(scenario.pickle.id) || 0;
+  scenarioAttempts.set(scenario.pickle.id, attempt + 1);
+  this.setScenarioData('attempt', attempt);
+  await this.startTrace(attempt);
 
   // Log scenario details
   const tags = scenario.pickle.tags.map(tag => tag.name).join(', ');
@@ -116,7 +155,7 @@ Before({ tags: '@debug' }, async function (this: CustomWorld) {
 });
 
 // Scenario cleanup - runs after each scenario
-After(async function (this: CustomWorld, scenario) {
+After(scenarioHookTimeout, async function (this: CustomWorld, scenario) {
   const scenarioName = this.getScenarioData('scenarioName');
   const startTime = this.getScenarioData('startTime');
   const duration = Date.now() - startTime;
@@ -126,6 +165,14 @@ After(async function (this: CustomWorld, scenario) {
   // Handle scenario result
   const status = scenario.result?.status;
 
+  // Attach the browser errors collected under CONSOLE_POLICY (or @strict-console). A
+  // scenario that broke a strict policy fails below, so its trace and video are kept too
+  const consolePolicy = this.getConsolePolicy();
+  const consoleViolations = this.reportConsoleIssues(consolePolicy);
+  const consoleFailure =
+    consolePolicy === 'fail' && consoleViolations.length > 0 && status !== Status.FAILED;
+  const failed = status === Status.FAILED || consoleFailure;
+
   if (status === Status.FAILED) {
     console.log(`Scenario FAILED: ${scenarioName}`);
 
@@ -148,6 +195,47 @@ After(async function (this: CustomWorld, scenario) {
     console.log(`Scenario SKIPPED: ${scenarioName}`);
   }
 
+  // Attach the requests the scenario made, for network assertion failures
+  if (failed) {
+    this.attachNetworkTraffic();
+  }
+
+  // Save or discard the scenario's trace, and link saved traces of failed scenarios
+  try {
+    const tracePaths = await this.finishTrace(failed);
+    tracePaths.forEach(tracePath => {
+      console.log(`Trace saved: ${tracePath}`);
+      if (failed) {
+        this.attachTrace(tracePath);
+      }
+    });
+  } catch (error) {
+    console.warn(`  Could not save scenario trace: ${error}`);
+  }
+
+  // Remove the scenario's network mocks, permissions and location so they cannot leak
+  // into a shared session
+  await this.clearNetworkMocks();
+  await this.resetSharedSessionPermissions();
+  this.reportMissedHarRequests();
+
+  // Attach the alerts, confirms and prompts the scenario ran into
+  this.attachDialogs();
+
+  // Back to real time for DateHelper, TestDataManager and the browsers of a shared session
+  await this.resetClock();
+
+  // Close the scenario's browser context (kept open for @shared-session), then
+  // keep its now complete videos according to VIDEO_MODE, within the hook's timeout
+  const videos = this.getSessionVideos();
+  await this.closePage();
+
+  const videoPaths = await this.saveVideos(videos, failed);
+  videoPaths.forEach(videoPath => {
+    console.log(`Video saved: ${videoPath}`);
+    this.attachVideo(videoPath);
+  });
+
   // Clear scenario-specific data
   this.clearScenarioData();
 
@@ -155,6 +243,14 @@ After(async function (this: CustomWorld, scenario) {
   if (process.env.DEBUG_CONSOLE === 'true') {
     delete process.env.DEBUG_CONSOLE;
   }
+
+  // Fail an otherwise passing scenario that broke a strict console policy
+  if (consoleFailure) {
+    throw new Error(
+      `Scenario "${scenarioName}" had ${consoleViolations.length} browser error(s) ` +
+        `not covered by the console allowlist:\n${consoleMonitor.formatIssues(consoleViolations)}`
+    );
+  }
 });
 
 // Tag-specific cleanup hooks
@@ -181,7 +277,7 @@ AfterAll(async function () {
   console.log('\n BDD Test Execution Completed');
   
   // Final cleanup if browser is still running
-  if (browserManager.isReady()) {
+  if (browserManager.isBrowserLaunched()) {
     console.log(' Final browser cleanup...');
     await browserManager.cleanup();
     console.log(' Final cleanup completed');
@@ -189,7 +285,7 @@ AfterAll(async function () {
 
   // Generate test summary from reports
   try {
-    const reportPath = 'reports/cucumber/cucumber-report.json';
+    const reportPath = configManager.getReportConfig().cucumberJsonFile;
     const reportData = await fs.readFile(reportPath, 'utf8');
     const report = JSON.parse(reportData);
 
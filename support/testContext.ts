@@ -1,8 +1,36 @@
 import { setWorldConstructor, World, IWorldOptions } from '@cucumber/cucumber';
-import { Page } from 'playwright';
-import browserManager from '../utils/browserManager';
-import configManager from '../utils/configManager';
+import fs from 'fs';
+import path from 'path';
+import {
+  BrowserContext,
+  BrowserContextOptions,
+  ConsoleMessage,
+  Cookie,
+  Dialog,
+  FrameLocator,
+  Locator,
+  Page,
+  Request,
+  Response,
+  WebError,
+} from 'playwright';
+import pageRegistry from '../pages';
+import { BasePage } from '../pages/BasePage';
+import { ElementAlias, ElementCatalog } from '../pages/elementCatalog';
+import { PageObjectClass } from '../pages/pageRegistry';
+import { ApiMatcher } from '../utils/apiMatcher';
+import authManager from '../utils/authManager';
+import browserManager, { SessionVideo } from '../utils/browserManager';
+import configManager, { ConsolePolicy, UserCredentials } from '../utils/configManager';
+import consoleMonitor, { ConsoleIssue, ConsoleIssueType } from '../utils/consoleMonitor';
+import { DateHelper, TimeUnit } from '../utils/dateHelper';
+import { FileHelper, GeneratedFile } from '../utils/fileHelper';
+import harManager from '../utils/harManager';
+import locatorResolver, { ElementKind, StrategyCandidate } from '../utils/locatorResolver';
+import networkMocker from '../utils/networkMocker';
+import testClock from '../utils/testClock';
 import testDataManager from '../utils/testDataManager';
+import { WaitHelper } from '../utils/waitHelper';
 
 export interface AttachmentData {
   data: string | Buffer;
@@ -11,24 +39,1178 @@ export interface AttachmentData {
   timestamp: string;
 }
 
+export interface ActorSession {
+  name: string;
+  role: string;
+  credentials: UserCredentials;
+  page: Page;
+}
+
+export interface ScenarioSessionOptions {
+  sharedSession?: boolean;
+  // Start the session logged in as this role (the `@as:<role>` tag)
+  role?: string;
+  // Emulate a Playwright device (the `@device:<name>` tag)
+  device?: string;
+  // The `@locale:<code>`, `@timezone:<IANA name>`, `@geo:<lat>,<lon>` and `@permission:<name>` tags
+  locale?: string;
+  timezone?: string;
+  geolocation?: string;
+  permissions?: string[];
+  // HAR recording used when NETWORK_MODE is record or replay
+  har?: string;
+}
+
+export interface RecordedRequest {
+  actor: string;
+  method: string;
+  url: string;
+  resourceType: string;
+  // Parsed JSON or form data when possible, otherwise the raw post data
+  body: unknown;
+  status: number | null;
+  timestamp: string;
+}
+
+export interface DownloadedFile {
+  path: string;
+  fileName: string;
+  url: string;
+}
+
+export interface RecordedDialog {
+  actor: string;
+  type: string;
+  message: string;
+  defaultValue: string;
+  action: 'accept' | 'dismiss';
+  promptText?: string;
+  // False when no step planned for it and it was dismissed by default
+  expected: boolean;
+  timestamp: string;
+}
+
+export type FormControlType = 'text' | 'select' | 'checkbox' | 'radio' | 'date';
+
+export interface FormField {
+  name: string;
+  value: string;
+}
+
+interface FormControl {
+  locator: Locator;
+  type: FormControlType;
+  tag: string;
+  inputType: string;
+}
+
+// Runs in the browser: the value, label and state of each radio option
+function readRadioOptions(
+  elements: Element[]
+): { value: string; label: string; checked: boolean }[] {
+  return elements.map(element => {
+    const input = element as HTMLInputElement;
+    const labels = Array.from(input.labels || []).map(label => label.textContent || '');
+    return {
+      value: input.value || '',
+      label: (
+        labels.join(' ') ||
+        element.getAttribute('aria-label') ||
+        element.textContent ||
+        ''
+      ).trim(),
+      checked: input.checked ?? element.getAttribute('aria-checked') === 'true',
+    };
+  });
+}
+
+export type StorageType = 'local' | 'session';
+
+export interface CookieOptions {
+  domain?: string;
+  path?: string;
+  // Omitted for a session cookie
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+interface DialogAction {
+  action: 'accept' | 'dismiss';
+  promptText?: string;
+}
+
+interface ContextListeners {
+  onRequest: (request: Request) => void;
+  onResponse: (response: Response) => void;
+  onRequestFailed: (request: Request) => void;
+  onConsole: (message: ConsoleMessage) => void;
+  onWebError: (webError: WebError) => void;
+  onDialog: (dialog: Dialog) => void;
+}
+
+export const DEFAULT_ACTOR = 'default';
+
 export class CustomWorld extends World {
   public page!: Page;
   public scenarioData: Map<string, any> = new Map();
   public attachments: AttachmentData[] = [];
+  public actors: Map<string, ActorSession> = new Map();
+  public currentActor: string = DEFAULT_ACTOR;
+  // Scenario-specific context options, shared by every actor of the scenario
+  public contextOptions: BrowserContextOptions = {};
+  // Requests made by every actor of the scenario, in order
+  public networkTraffic: RecordedRequest[] = [];
+  // Page errors, console errors and failed requests, checked against CONSOLE_POLICY
+  public consoleIssues: ConsoleIssue[] = [];
+  public downloads: DownloadedFile[] = [];
+  // Every alert, confirm, prompt and beforeunload dialog of the scenario
+  public dialogs: RecordedDialog[] = [];
+  private plannedDialogActions: DialogAction[] = [];
+  // Frames entered with enterFrame(), outermost first; element helpers resolve inside the last one
+  private framePath: { name: string; selector: string }[] = [];
+  private contextListeners: Map<BrowserContext, ContextListeners> = new Map();
+  // The page object last opened or verified in each tab
+  private pageObjects: WeakMap<Page, BasePage> = new WeakMap();
+  // Tabs that already fall back to another tab when closed
+  private watchedPages: WeakSet<Page> = new WeakSet();
 
   constructor(options: IWorldOptions) {
     super(options);
   }
 
   // Browser management methods
-  async initializePage(): Promise<Page> {
-    if (!browserManager.isReady()) {
-      await browserManager.initializeBrowser();
+  async initializePage(options: ScenarioSessionOptions = {}): Promise<Page> {
+    // A scenario gets exactly one session; later calls from steps reuse it
+    if (this.page) {
+      return this.page;
+    }
+
+    this.contextOptions = this.buildContextOptions(options);
+
+    const storageState = options.role ? await authManager.getStorageState(options.role) : undefined;
+    this.page = await browserManager.startSession({
+      sharedSession: options.sharedSession,
+      contextOptions: { ...this.contextOptions, storageState },
+      harName: options.har,
+    });
+    this.actors.set(
+      DEFAULT_ACTOR,
+      this.createActorSession(DEFAULT_ACTOR, options.role || DEFAULT_ACTOR, this.page)
+    );
+    this.observeContext(DEFAULT_ACTOR, this.page.context());
+    this.activatePage(this.page);
+
+    // A reused @shared-session context ignores context options, so grant this scenario's tags
+    const { permissions, geolocation } = this.contextOptions;
+    if (options.sharedSession && permissions) {
+      await this.page.context().grantPermissions(permissions);
+    }
+    if (options.sharedSession && geolocation) {
+      await this.page.context().setGeolocation(geolocation);
+    }
+    return this.page;
+  }
+
+  // A @shared-session context outlives the scenario, so its grants and location must not
+  async resetSharedSessionPermissions(): Promise<void> {
+    if (!this.page || !browserManager.isSharedSession()) {
+      return;
+    }
+    const context = this.actors.get(DEFAULT_ACTOR)?.page.context() || this.page.context();
+    await context.clearPermissions();
+    await context.setGeolocation(null);
+  }
+
+  async closePage(): Promise<void> {
+    this.stopObservingContexts();
+    await browserManager.endSession();
+    this.actors.clear();
+    this.currentActor = DEFAULT_ACTOR;
+  }
+
+  // Actor session helpers - each actor gets its own isolated browser context
+  async addActor(
+    name: string,
+    role: string = name,
+    authenticated: boolean = false
+  ): Promise<ActorSession> {
+    const existing = this.actors.get(name);
+    if (existing) {
+      if (existing.role !== role) {
+        throw new Error(`Actor "${name}" is already bound to the "${existing.role}" role`);
+      }
+      return existing;
+    }
+
+    // A typo must not silently log in as the default user
+    const roles = configManager.getUserRoles();
+    if (!roles.includes(role)) {
+      throw new Error(
+        `Unknown role "${role}" for actor "${name}". Valid roles: ${roles.join(', ')}`
+      );
+    }
+
+    await this.initializePage();
+    const storageState = authenticated ? await authManager.getStorageState(role) : undefined;
+    const page = await browserManager.openActorSession(name, {
+      ...this.contextOptions,
+      storageState,
+    });
+    const actor = this.createActorSession(name, role, page);
+    this.actors.set(name, actor);
+    this.observeContext(name, page.context());
+    await this.syncBrowserClock(page.context());
+    this.logMessage(`Added actor "${name}" with role "${role}"`, 'debug');
+    return actor;
+  }
+
+  async switchActor(name: string): Promise<ActorSession> {
+    const actor = this.actors.get(name) || (await this.addActor(name));
+    this.currentActor = name;
+    this.activatePage(actor.page);
+    this.logMessage(`Acting as "${name}"`, 'debug');
+    return actor;
+  }
+
+  getCurrentActor(): ActorSession {
+    const actor = this.actors.get(this.currentActor);
+    if (!actor) {
+      throw new Error(
+        `No session for actor "${this.currentActor}". Has the page been initialized?`
+      );
+    }
+    return actor;
+  }
+
+  private buildContextOptions(options: ScenarioSessionOptions): BrowserContextOptions {
+    const contextOptions: BrowserContextOptions = options.device
+      ? browserManager.getDeviceOptions(options.device)
+      : {};
+
+    if (options.locale) {
+      try {
+        [contextOptions.locale] = Intl.getCanonicalLocales(options.locale);
+      } catch {
+        throw new Error(`Invalid locale: ${options.locale}. Use a BCP 47 code such as en-US`);
+      }
+    }
+
+    if (options.timezone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: options.timezone });
+      } catch {
+        throw new Error(
+          `Invalid timezone: ${options.timezone}. Use an IANA name such as America/New_York`
+        );
+      }
+      contextOptions.timezoneId = options.timezone;
+    }
+
+    const permissions = [...(options.permissions || [])];
+    if (options.geolocation) {
+      const [latitude, longitude] = options.geolocation.split(',').map(Number);
+      contextOptions.geolocation = this.validateGeolocation(latitude, longitude);
+      permissions.push('geolocation');
+    }
+    if (permissions.length > 0) {
+      contextOptions.permissions = [...new Set(permissions)];
+    }
+
+    return contextOptions;
+  }
+
+  private createActorSession(name: string, role: string, page: Page): ActorSession {
+    return {
+      name,
+      role,
+      credentials: configManager.getUserCredentials(role),
+      page,
+    };
+  }
+
+  // Tab and popup helpers - every step works against the active tab of the current actor
+  async switchToNewTab(): Promise<Page> {
+    const newPage = await browserManager.waitForNewPage(this.page.context(), this.getPollTimeout());
+    await newPage.waitForLoadState();
+    this.activatePage(newPage);
+    this.logMessage(`Switched to new tab: ${newPage.url()}`, 'debug');
+    return newPage;
+  }
+
+  async switchToTabTitled(title: string): Promise<Page> {
+    let match: Page | undefined;
+    try {
+      await WaitHelper.waitForCondition(async () => {
+        match = await this.findTabByTitle(title);
+        return match !== undefined;
+      }, this.getPollTimeout());
+    } catch {
+      const titles = await Promise.all(this.getOpenTabs().map(tab => tab.title()));
+      throw new Error(`No tab titled "${title}". Open tabs: ${titles.join(', ')}`);
+    }
+
+    this.activatePage(match!);
+    return match!;
+  }
+
+  async switchToTab(index: number): Promise<Page> {
+    const tabs = this.getOpenTabs();
+    const tab = tabs[index - 1];
+    if (!tab) {
+      throw new Error(`There is no tab ${index}. Open tabs: ${tabs.length}`);
+    }
+    this.activatePage(tab);
+    return tab;
+  }
+
+  async closeCurrentTab(): Promise<void> {
+    const tabs = this.getOpenTabs();
+    if (tabs.length <= 1) {
+      throw new Error('Cannot close the last open tab of the session');
+    }
+    const current = this.page;
+    await current.close();
+    if (this.page === current) {
+      this.activatePage(tabs.filter(tab => tab !== current).pop()!);
+    }
+  }
+
+  getOpenTabs(): Page[] {
+    return this.page.context().pages();
+  }
+
+  private async findTabByTitle(title: string): Promise<Page | undefined> {
+    for (const tab of this.getOpenTabs()) {
+      if ((await tab.title()) === title) {
+        return tab;
+      }
+    }
+    return undefined;
+  }
+
+  private activatePage(page: Page): void {
+    this.page = page;
+    this.framePath = [];
+    browserManager.setActivePage(page);
+
+    const actor = this.actors.get(this.currentActor);
+    if (actor) {
+      actor.page = page;
+    }
+
+    // If the app closes the tab (e.g. an OAuth popup), fall back to the newest remaining tab.
+    // Registered once per tab, however often the tab or actor is switched back to
+    if (this.watchedPages.has(page)) {
+      return;
+    }
+    this.watchedPages.add(page);
+    page.once('close', () => {
+      if (this.page !== page) {
+        return;
+      }
+      const remaining = page.context().pages();
+      if (remaining.length > 0) {
+        this.activatePage(remaining[remaining.length - 1]);
+      }
+    });
+  }
+
+  // Frame helpers - element helpers and common steps act inside the entered frame
+  async enterFrame(frame: string): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    // Resolved once, so the frame stays the same while the page underneath changes
+    const selector = this.getFrameSelector(frame);
+    const frameElement = this.getScope().locator(selector).first();
+    await frameElement.waitFor({ state: 'attached', timeout: this.getPollTimeout() }).catch(() => {
+      const entered = this.getFramePath();
+      const within = entered.length ? ` within frame "${entered.join(' > ')}"` : '';
+      throw new Error(`Frame "${frame}" not found${within}`);
+    });
+    this.framePath.push({ name: frame, selector });
+    this.logMessage(`Entered frame "${this.getFramePath().join(' > ')}"`, 'debug');
+  }
+
+  // Leaves the innermost frame; nested frames are exited one at a time
+  exitFrame(): void {
+    if (this.framePath.length === 0) {
+      throw new Error('Not inside a frame');
+    }
+    const frame = this.framePath.pop();
+    this.logMessage(`Exited frame "${frame?.name}"`, 'debug');
+  }
+
+  getFramePath(): string[] {
+    return this.framePath.map(frame => frame.name);
+  }
+
+  // The page, or the entered frame, that element selectors are resolved against
+  getScope(): Page | FrameLocator {
+    return this.framePath.reduce<Page | FrameLocator>(
+      (scope, frame) => scope.locator(frame.selector).first().contentFrame(),
+      this.page
+    );
+  }
+
+  // Selectors are resolved in the scope; locators from findElement() already are
+  locator(target: string | Locator): Locator {
+    return typeof target === 'string' ? this.getScope().locator(target) : target;
+  }
+
+  /**
+   * Locator helpers - common steps find named elements through an alias of the
+   * current page's element catalog, or else the strategies in LOCATOR_STRATEGIES.
+   */
+  async findElement(kind: ElementKind, name: string): Promise<Locator> {
+    if (!this.page) throw new Error('Page not initialized');
+    const resolved = await locatorResolver.resolveCandidates(
+      kind,
+      name,
+      this.getElementCandidates(kind, name)
+    );
+    if (resolved.count > 1) {
+      this.logMessage(
+        `No strategy found a single ${kind} "${name}"; ${resolved.strategy} matched ` +
+          `${resolved.count} elements: ${resolved.description}`,
+        'warn'
+      );
+    } else {
+      this.logMessage(
+        `Found ${kind} "${name}" by ${resolved.strategy}: ${resolved.description}`,
+        'debug'
+      );
+    }
+    return resolved.locator;
+  }
+
+  // Does not wait for the element to appear, for steps asserting it is absent or hidden
+  async findElementNow(kind: ElementKind, name: string): Promise<Locator> {
+    if (!this.page) throw new Error('Page not initialized');
+    return (await locatorResolver.findCandidates(kind, name, this.getElementCandidates(kind, name)))
+      .locator;
+  }
+
+  // "the {string} button" steps also match aliases ending in the kind, e.g. "Get Quote button"
+  findElementAlias(kind: ElementKind, name: string): ElementAlias | undefined {
+    const pageClass = this.getCurrentPageClass();
+    if (!pageClass) {
+      return undefined;
+    }
+    const kindWords: Record<ElementKind, string[]> = {
+      button: ['button'],
+      field: ['field'],
+      dropdown: ['dropdown'],
+      checkbox: ['checkbox'],
+      control: ['field', 'dropdown', 'checkbox'],
+      element: [],
+    };
+    const names = [...kindWords[kind].map(word => `${name} ${word}`), name];
+    return ElementCatalog.lookup(pageClass, names);
+  }
+
+  // The page object class of the current tab: the last page opened while the tab is
+  // still on its path, else the registered page matching the URL (after a link or redirect)
+  getCurrentPageClass(): PageObjectClass | undefined {
+    if (!this.page) {
+      return undefined;
+    }
+    const url = this.page.url();
+    const pageObject = this.pageObjects.get(this.page);
+    const pageClass = pageObject?.constructor as PageObjectClass | undefined;
+    if (pageClass && pageRegistry.matchesUrl(pageClass, url)) {
+      return pageClass;
+    }
+    return pageRegistry.findByUrl(url);
+  }
+
+  private getElementCandidates(kind: ElementKind, name: string): StrategyCandidate[] {
+    const alias = this.findElementAlias(kind, name);
+    if (!alias) {
+      return locatorResolver.getCandidates(this.getScope(), kind, name);
+    }
+    return [
+      {
+        strategy: 'alias',
+        candidate: {
+          locator: this.locator(alias.selector),
+          description: `${alias.selector} ("${alias.alias}" in ${alias.definedIn})`,
+        },
+      },
+    ];
+  }
+
+  // A frame is an alias of the current page ("payment frame" or "payment"), a CSS selector,
+  // or the name, id, title or test id ("{name}-frame") of an iframe
+  private getFrameSelector(frame: string): string {
+    const pageClass = this.getCurrentPageClass();
+    const alias = pageClass && ElementCatalog.lookup(pageClass, [`${frame} frame`, frame]);
+    if (alias) {
+      return alias.selector;
+    }
+    if (!/^[\w\s-]+$/.test(frame)) {
+      return frame;
+    }
+    const { testIdAttribute } = configManager.getLocatorConfig();
+    return (
+      `iframe[name="${frame}"], iframe[id="${frame}"], iframe[title="${frame}"], ` +
+      `[${testIdAttribute}="${frame.toLowerCase()}-frame"]`
+    );
+  }
+
+  // Page object helpers - registered page objects (pages/index.ts) are opened and checked by name
+  async openPage(pageName: string): Promise<BasePage | undefined> {
+    await this.navigateToPage(this.getPageUrl(pageName));
+    return pageRegistry.get(pageName) ? await this.verifyPage(pageName) : undefined;
+  }
+
+  // Waits for the page object's isLoaded() check, then makes it the page object of the tab
+  async verifyPage(pageName: string): Promise<BasePage> {
+    if (!this.page) throw new Error('Page not initialized');
+    const pageClass = pageRegistry.get(pageName);
+    if (!pageClass) {
+      throw new Error(
+        `Unknown page "${pageName}". Registered pages: ${pageRegistry.getNames().join(', ')}`
+      );
+    }
+
+    const pageObject = new pageClass(this.page);
+    await WaitHelper.waitForCondition(
+      () => pageObject.isLoaded().catch(() => false),
+      configManager.getLocatorConfig().timeout,
+      250
+    ).catch(() => {
+      throw new Error(
+        `The "${pageName}" page did not load: ${pageClass.name}.isLoaded() is false at ${this.page.url()}`
+      );
+    });
+
+    this.pageObjects.set(this.page, pageObject);
+    this.logMessage(`On the "${pageName}" page (${pageClass.name})`, 'debug');
+    return pageObject;
+  }
+
+  // The page object of the current tab, optionally checked to be of the given class
+  getPageObject<T extends BasePage>(pageClass?: new (page: Page) => T): T {
+    const pageObject = this.page && this.pageObjects.get(this.page);
+    if (!pageObject) {
+      throw new Error(
+        'The current tab has no page object. Open a registered page with "I am on the {string} page"'
+      );
+    }
+    if (pageClass && !(pageObject instanceof pageClass)) {
+      throw new Error(`The current page is ${pageObject.constructor.name}, not ${pageClass.name}`);
+    }
+    return pageObject as T;
+  }
+
+  // Geolocation helpers - apply to the current actor's context
+  async setGeolocation(latitude: number, longitude: number): Promise<void> {
+    const context = this.page.context();
+    await context.grantPermissions(['geolocation']);
+    await context.setGeolocation(this.validateGeolocation(latitude, longitude));
+  }
+
+  // The page still has permission, but every position request fails
+  async clearGeolocation(): Promise<void> {
+    await this.page.context().setGeolocation(null);
+  }
+
+  private validateGeolocation(
+    latitude: number,
+    longitude: number
+  ): { latitude: number; longitude: number } {
+    if (
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      throw new Error(
+        `Invalid geolocation: ${latitude},${longitude}. Expected latitude,longitude such as 51.5,-0.12`
+      );
+    }
+    return { latitude, longitude };
+  }
+
+  // Clock helpers - the browsers of all actors, DateHelper and TestDataManager share one frozen time
+  async setCurrentDate(value: string): Promise<void> {
+    testClock.freeze(DateHelper.parseDate(value));
+    await this.syncBrowserClocks();
+    this.logMessage(`Current date set to ${testClock.now().toISOString()}`, 'debug');
+  }
+
+  // Advancing time also freezes it, if no current date has been set yet
+  async advanceTime(amount: number, unit: TimeUnit): Promise<void> {
+    testClock.freeze(DateHelper.addTime(testClock.now(), amount, unit));
+    await this.syncBrowserClocks();
+    this.logMessage(`Time advanced to ${testClock.now().toISOString()}`, 'debug');
+  }
+
+  // Back to real time, in the browsers too: a @shared-session context outlives the scenario
+  async resetClock(): Promise<void> {
+    if (testClock.isFrozen()) {
+      for (const context of this.getActorContexts()) {
+        // Setting the system time lifts setFixedTime and lets time flow again
+        await context.clock.setSystemTime(new Date()).catch(error => {
+          this.logMessage(`Could not reset the browser clock: ${error}`, 'warn');
+        });
+      }
+    }
+    testClock.reset();
+  }
+
+  private async syncBrowserClocks(): Promise<void> {
+    for (const context of this.getActorContexts()) {
+      await this.syncBrowserClock(context);
+    }
+  }
+
+  private getActorContexts(): Set<BrowserContext> {
+    return new Set([...this.actors.values()].map(actor => actor.page.context()));
+  }
+
+  private async syncBrowserClock(context: BrowserContext): Promise<void> {
+    if (testClock.isFrozen()) {
+      await context.clock.setFixedTime(testClock.now());
+    }
+  }
+
+  // Download helpers - files are saved under reports/downloads/<scenario>/ and attached to the report
+  async clickAndWaitForDownload(selector: string | Locator): Promise<DownloadedFile> {
+    if (!this.page) throw new Error('Page not initialized');
+    const [download] = await Promise.all([
+      this.page.waitForEvent('download', { timeout: this.getPollTimeout() }),
+      this.locator(selector).click(),
+    ]);
+
+    // The name comes from the server (Content-Disposition), so keep it inside the downloads folder
+    const suggested = path.basename(download.suggestedFilename().replace(/\\/g, '/'));
+    const fileName = suggested && !/^\.+$/.test(suggested) ? suggested : 'download';
+    const filePath = path.join('reports', 'downloads', this.getScenarioSlug(), fileName);
+    // Waits for the download to finish and fails if it did not
+    await download.saveAs(filePath);
+
+    const downloaded: DownloadedFile = { path: filePath, fileName, url: download.url() };
+    this.downloads.push(downloaded);
+    this.logMessage(`Downloaded ${fileName} to ${filePath}`, 'debug');
+
+    this.addAttachment(fs.readFileSync(filePath), FileHelper.getMediaType(fileName), fileName);
+    return downloaded;
+  }
+
+  getLastDownload(): DownloadedFile {
+    const download = this.downloads[this.downloads.length - 1];
+    if (!download) {
+      throw new Error('No file has been downloaded in this scenario');
+    }
+    return download;
+  }
+
+  // Text content of the last download; PDFs are reduced to the text they display
+  readDownloadText(): string {
+    const { path: filePath } = this.getLastDownload();
+    const content = fs.readFileSync(filePath);
+    return FileHelper.getMediaType(filePath) === 'application/pdf'
+      ? FileHelper.extractPdfText(content)
+      : content.toString('utf8');
+  }
+
+  // Rows of the last download as a CSV file, keyed by the header row
+  readDownloadedCsv(): Record<string, string>[] {
+    const [header = [], ...rows] = FileHelper.parseCsv(this.readDownloadText());
+    return rows.map(cells =>
+      Object.fromEntries(header.map((column, index) => [column.trim(), cells[index] ?? '']))
+    );
+  }
+
+  // Upload helpers - files from disk (or fixtures/uploads/) or generated on the fly
+  async uploadFile(file: string | GeneratedFile, field?: string): Promise<void> {
+    const input = field ? await this.findElement('field', field) : await this.getOnlyFileInput();
+    await input.setInputFiles(this.resolveUpload(file));
+    this.recordUpload(file);
+  }
+
+  // For uploads started from a button that opens the native file chooser
+  async uploadViaFileChooser(
+    selector: string | Locator,
+    file: string | GeneratedFile
+  ): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    const [fileChooser] = await Promise.all([
+      this.page.waitForEvent('filechooser', { timeout: this.getPollTimeout() }),
+      this.locator(selector).click(),
+    ]);
+    await fileChooser.setFiles(this.resolveUpload(file));
+    this.recordUpload(file);
+  }
+
+  private async getOnlyFileInput(): Promise<Locator> {
+    const inputs = this.locator('input[type="file"]');
+    const count = await inputs.count();
+    if (count !== 1) {
+      throw new Error(
+        `Expected exactly one file input on the page, found ${count}. Name the field to upload to`
+      );
+    }
+    return inputs;
+  }
+
+  private resolveUpload(file: string | GeneratedFile): string | GeneratedFile {
+    if (typeof file !== 'string') {
+      return file;
+    }
+
+    const fixturesDir = configManager.getEnvVar('FIXTURES_DIR', 'fixtures');
+    const candidates = [
+      file,
+      path.join(fixturesDir, 'uploads', file),
+      path.join(fixturesDir, file),
+    ];
+    const found = candidates.find(candidate => fs.existsSync(candidate));
+    if (!found) {
+      throw new Error(`Upload file "${file}" not found. Looked in: ${candidates.join(', ')}`);
+    }
+    return found;
+  }
+
+  // The last uploaded file, for {{lastUpload.name}} placeholders
+  private recordUpload(file: string | GeneratedFile): void {
+    const name = typeof file === 'string' ? path.basename(file) : file.name;
+    this.setScenarioData('lastUpload', { name });
+    this.logMessage(`Uploaded ${name}`, 'debug');
+  }
+
+  // Dialog helpers - planned actions apply to the next dialogs in order; others are dismissed
+  expectDialog(action: 'accept' | 'dismiss', promptText?: string): void {
+    this.plannedDialogActions.push({ action, promptText });
+  }
+
+  findDialogs(message: string): RecordedDialog[] {
+    return this.dialogs.filter(dialog => dialog.message.includes(message));
+  }
+
+  attachDialogs(): void {
+    if (this.dialogs.length > 0) {
+      this.addAttachment(JSON.stringify(this.dialogs, null, 2), 'application/json', 'dialogs.json');
+    }
+  }
+
+  private async handleDialog(actor: string, dialog: Dialog): Promise<void> {
+    const planned = this.plannedDialogActions.shift();
+    const { action, promptText } = planned || { action: 'dismiss' };
+
+    this.dialogs.push({
+      actor,
+      type: dialog.type(),
+      message: dialog.message(),
+      defaultValue: dialog.defaultValue(),
+      action,
+      promptText,
+      expected: planned !== undefined,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (!planned) {
+      this.logMessage(`Dismissed unexpected ${dialog.type()} dialog: ${dialog.message()}`, 'warn');
+    }
+
+    if (action === 'accept') {
+      await dialog.accept(promptText);
+    } else {
+      await dialog.dismiss();
+    }
+  }
+
+  // Cookie helpers - apply to the current actor's context
+  async setCookie(name: string, value: string, options: CookieOptions = {}): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    const { hostname } = new URL(this.getOriginUrl());
+    await this.page.context().addCookies([
+      {
+        name,
+        value,
+        domain: options.domain || hostname,
+        path: options.path || '/',
+        expires: options.expires ? Math.floor(options.expires.getTime() / 1000) : undefined,
+        httpOnly: options.httpOnly,
+        secure: options.secure,
+        sameSite: options.sameSite,
+      },
+    ]);
+  }
+
+  async getCookie(name: string): Promise<Cookie | undefined> {
+    if (!this.page) throw new Error('Page not initialized');
+    const cookies = await this.page.context().cookies();
+    return cookies.find(cookie => cookie.name === name);
+  }
+
+  // Clears one cookie by name, or every cookie of the context
+  async clearCookies(name?: string): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    await this.page.context().clearCookies(name ? { name } : undefined);
+  }
+
+  /**
+   * Cookie options from a step table: domain, path, httpOnly, secure, sameSite and
+   * expires (a date, "in 7 days" relative to the test clock, or "session").
+   */
+  parseCookieOptions(fields: Record<string, string>): CookieOptions {
+    const options: CookieOptions = {};
+    const parseBoolean = (field: string, value: string): boolean => {
+      if (!/^(true|false)$/i.test(value)) {
+        throw new Error(`Cookie ${field} must be true or false, got "${value}"`);
+      }
+      return value.toLowerCase() === 'true';
+    };
+
+    Object.entries(fields).forEach(([field, rawValue]) => {
+      const value = rawValue.trim();
+      switch (field.trim().toLowerCase()) {
+        case 'domain':
+          options.domain = value;
+          break;
+        case 'path':
+          options.path = value;
+          break;
+        case 'expires':
+          options.expires = this.parseCookieExpiry(value);
+          break;
+        case 'httponly':
+          options.httpOnly = parseBoolean('httpOnly', value);
+          break;
+        case 'secure':
+          options.secure = parseBoolean('secure', value);
+          break;
+        case 'samesite': {
+          const sameSite = ['Strict', 'Lax', 'None'].find(
+            option => option.toLowerCase() === value.toLowerCase()
+          );
+          if (!sameSite) {
+            throw new Error(`Cookie sameSite must be Strict, Lax or None, got "${value}"`);
+          }
+          options.sameSite = sameSite as CookieOptions['sameSite'];
+          break;
+        }
+        default:
+          throw new Error(
+            `Unknown cookie field: ${field}. Use domain, path, expires, httpOnly, secure or sameSite`
+          );
+      }
+    });
+    return options;
+  }
+
+  // Differences between a cookie and the fields of a step table, compared field by field
+  getCookieMismatches(cookie: Cookie, fields: Record<string, string>): string[] {
+    const expected = this.parseCookieOptions(fields);
+    const given = Object.keys(fields).map(field => field.trim().toLowerCase());
+    const mismatches: string[] = [];
+    const compare = (field: string, actual: unknown, wanted: unknown) => {
+      if (actual !== wanted) {
+        mismatches.push(`${field}: expected ${wanted}, got ${actual}`);
+      }
+    };
+
+    if (expected.domain !== undefined) {
+      // Cookies set with a Domain attribute are stored with a leading dot
+      compare('domain', cookie.domain.replace(/^\./, ''), expected.domain.replace(/^\./, ''));
+    }
+    if (expected.path !== undefined) compare('path', cookie.path, expected.path);
+    if (expected.httpOnly !== undefined) compare('httpOnly', cookie.httpOnly, expected.httpOnly);
+    if (expected.secure !== undefined) compare('secure', cookie.secure, expected.secure);
+    if (expected.sameSite !== undefined) compare('sameSite', cookie.sameSite, expected.sameSite);
+
+    if (given.includes('expires')) {
+      const actualExpiry = cookie.expires === -1 ? 'session' : new Date(cookie.expires * 1000);
+      const wantedExpiry = expected.expires || 'session';
+      // Expiry set by the server is compared to the minute
+      const matches =
+        actualExpiry instanceof Date && wantedExpiry instanceof Date
+          ? Math.abs(actualExpiry.getTime() - wantedExpiry.getTime()) <= 60000
+          : actualExpiry === wantedExpiry;
+      if (!matches) {
+        const format = (expiry: Date | string) =>
+          expiry instanceof Date ? expiry.toISOString() : expiry;
+        mismatches.push(`expires: expected ${format(wantedExpiry)}, got ${format(actualExpiry)}`);
+      }
+    }
+    return mismatches;
+  }
+
+  private parseCookieExpiry(value: string): Date | undefined {
+    if (value.toLowerCase() === 'session') {
+      return undefined;
+    }
+    return DateHelper.resolveDate(value);
+  }
+
+  // Cookies set before the first navigation belong to the base URL
+  private getOriginUrl(): string {
+    const url = this.page.url();
+    return /^https?:/.test(url) ? url : this.getBaseURL();
+  }
+
+  // Web storage helpers - act on the origin of the current tab, not of the entered frame
+  async setStorageItem(type: StorageType, key: string, value: string): Promise<void> {
+    await this.getStoragePage(type).evaluate(
+      ([storageType, itemKey, itemValue]) =>
+        (storageType === 'local' ? localStorage : sessionStorage).setItem(itemKey, itemValue),
+      [type, key, value] as const
+    );
+  }
+
+  async getStorageItem(type: StorageType, key: string): Promise<string | null> {
+    return await this.getStoragePage(type).evaluate(
+      ([storageType, itemKey]) =>
+        (storageType === 'local' ? localStorage : sessionStorage).getItem(itemKey),
+      [type, key] as const
+    );
+  }
+
+  async removeStorageItem(type: StorageType, key: string): Promise<void> {
+    await this.getStoragePage(type).evaluate(
+      ([storageType, itemKey]) =>
+        (storageType === 'local' ? localStorage : sessionStorage).removeItem(itemKey),
+      [type, key] as const
+    );
+  }
+
+  async clearStorage(type: StorageType): Promise<void> {
+    await this.getStoragePage(type).evaluate(
+      storageType => (storageType === 'local' ? localStorage : sessionStorage).clear(),
+      type
+    );
+  }
+
+  async getStorage(type: StorageType): Promise<Record<string, string>> {
+    return await this.getStoragePage(type).evaluate(storageType => {
+      const storage = storageType === 'local' ? localStorage : sessionStorage;
+      const items: Record<string, string> = {};
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)!;
+        items[key] = storage.getItem(key)!;
+      }
+      return items;
+    }, type);
+  }
+
+  // Attaches the cookies and web storage of the current tab as storage.json
+  async attachStorage(): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    const navigated = /^https?:/.test(this.page.url());
+    const snapshot = {
+      url: this.page.url(),
+      cookies: await this.page.context().cookies(),
+      localStorage: navigated ? await this.getStorage('local') : {},
+      sessionStorage: navigated ? await this.getStorage('session') : {},
+    };
+    this.addAttachment(JSON.stringify(snapshot, null, 2), 'application/json', 'storage.json');
+  }
+
+  private getStoragePage(type: StorageType): Page {
+    if (!this.page) throw new Error('Page not initialized');
+    if (!/^https?:/.test(this.page.url())) {
+      throw new Error(`Navigate to a page before using ${type} storage`);
     }
-    this.page = browserManager.getPage()!;
     return this.page;
   }
 
+  // Network mocking helpers - routes apply to the current actor's context
+  async mockApiWithFixture(api: string, fixtureName: string, status: number = 200): Promise<void> {
+    await networkMocker.mockFixture(this.page.context(), api, fixtureName, status);
+  }
+
+  async mockApiNetworkError(api: string): Promise<void> {
+    await networkMocker.mockNetworkError(this.page.context(), api);
+  }
+
+  async delayApi(api: string, ms: number): Promise<void> {
+    await networkMocker.mockDelay(this.page.context(), api, ms);
+  }
+
+  async clearNetworkMocks(): Promise<void> {
+    await networkMocker.clearRoutes();
+  }
+
+  // Report requests that NETWORK_MODE=replay could not serve from the HAR
+  reportMissedHarRequests(): string[] {
+    const missed = harManager.takeMissedRequests();
+    if (missed.length > 0) {
+      this.logMessage(`${missed.length} request(s) not found in the HAR recording`, 'warn');
+      this.addAttachment(
+        `Requests not found in the HAR recording (aborted):\n${missed.join('\n')}`,
+        'text/plain',
+        'har-missed-requests.txt'
+      );
+    }
+    return missed;
+  }
+
+  // Network traffic helpers - every request of the scenario is recorded for assertions
+  findRequests(api: string, method?: string): RecordedRequest[] {
+    const spec = ApiMatcher.parse(method ? `${method} ${api}` : api);
+    return this.networkTraffic.filter(request =>
+      ApiMatcher.matches(spec, request.method, request.url)
+    );
+  }
+
+  /**
+   * True when every field of `expected` is present in `actual` with the same
+   * value. Nested objects are matched the same way; arrays must have the same
+   * length and match element by element.
+   */
+  matchesPartially(expected: unknown, actual: unknown): boolean {
+    if (Array.isArray(expected)) {
+      return (
+        Array.isArray(actual) &&
+        actual.length === expected.length &&
+        expected.every((item, index) => this.matchesPartially(item, actual[index]))
+      );
+    }
+    if (expected !== null && typeof expected === 'object') {
+      if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+        return false;
+      }
+      return Object.entries(expected).every(([key, value]) =>
+        this.matchesPartially(value, (actual as Record<string, unknown>)[key])
+      );
+    }
+    // Form posts carry every value as a string
+    return expected === actual || (typeof actual === 'string' && String(expected) === actual);
+  }
+
+  attachNetworkTraffic(): void {
+    if (this.networkTraffic.length > 0) {
+      this.addAttachment(
+        JSON.stringify(this.networkTraffic, null, 2),
+        'application/json',
+        'network-traffic.json'
+      );
+    }
+  }
+
+  // Record the traffic and browser errors of an actor's context for this scenario only
+  private observeContext(actor: string, context: BrowserContext): void {
+    // A shared session reuses its context, and so would a second actor on the same context
+    if (this.contextListeners.has(context)) {
+      return;
+    }
+
+    const entries = new WeakMap<Request, RecordedRequest>();
+    const listeners: ContextListeners = {
+      onRequest: request => {
+        const entry: RecordedRequest = {
+          actor,
+          method: request.method(),
+          url: request.url(),
+          resourceType: request.resourceType(),
+          body: this.getRequestBody(request),
+          status: null,
+          timestamp: new Date().toISOString(),
+        };
+        entries.set(request, entry);
+        this.networkTraffic.push(entry);
+      },
+      onResponse: response => {
+        const entry = entries.get(response.request());
+        if (entry) {
+          entry.status = response.status();
+        }
+      },
+      onRequestFailed: request => {
+        if (!networkMocker.isMockedFailure(request)) {
+          const reason = request.failure()?.errorText || 'failed';
+          this.addConsoleIssue(
+            'request-failed',
+            actor,
+            `${request.method()} ${reason}`,
+            request.url()
+          );
+        }
+      },
+      onConsole: message => {
+        if (message.type() === 'error') {
+          this.addConsoleIssue('console-error', actor, message.text(), message.location().url);
+        }
+      },
+      onWebError: webError => {
+        this.addConsoleIssue(
+          'page-error',
+          actor,
+          webError.error().message,
+          webError.page()?.url() || ''
+        );
+      },
+      onDialog: dialog => {
+        this.handleDialog(actor, dialog).catch(error =>
+          this.logMessage(`Could not handle ${dialog.type()} dialog: ${error}`, 'warn')
+        );
+      },
+    };
+
+    context.on('request', listeners.onRequest);
+    context.on('response', listeners.onResponse);
+    context.on('requestfailed', listeners.onRequestFailed);
+    context.on('console', listeners.onConsole);
+    context.on('weberror', listeners.onWebError);
+    context.on('dialog', listeners.onDialog);
+    this.contextListeners.set(context, listeners);
+  }
+
+  private stopObservingContexts(): void {
+    for (const [context, listeners] of this.contextListeners) {
+      context.off('request', listeners.onRequest);
+      context.off('response', listeners.onResponse);
+      context.off('requestfailed', listeners.onRequestFailed);
+      context.off('console', listeners.onConsole);
+      context.off('weberror', listeners.onWebError);
+      context.off('dialog', listeners.onDialog);
+    }
+    this.contextListeners.clear();
+  }
+
+  private addConsoleIssue(type: ConsoleIssueType, actor: string, message: string, url: string) {
+    this.consoleIssues.push({ type, actor, message, url, timestamp: new Date().toISOString() });
+  }
+
+  // Console policy helpers - see utils/consoleMonitor.ts for the allowlist
+  getConsolePolicy(): ConsolePolicy {
+    const tags: string[] = this.getScenarioData('scenarioTags') || [];
+    return tags.includes('@strict-console') ? 'fail' : configManager.getConsoleConfig().policy;
+  }
+
+  /**
+   * Attach the browser errors collected during the scenario and return those
+   * not covered by the allowlist. Does nothing under the `off` policy.
+   */
+  reportConsoleIssues(policy: ConsolePolicy): ConsoleIssue[] {
+    if (policy === 'off' || this.consoleIssues.length === 0) {
+      return [];
+    }
+
+    this.addAttachment(
+      consoleMonitor.formatIssues(this.consoleIssues),
+      'text/plain',
+      'console-issues.txt'
+    );
+
+    const violations = consoleMonitor.getViolations(this.consoleIssues);
+    if (violations.length > 0) {
+      this.logMessage(`${violations.length} browser error(s) during the scenario`, 'warn');
+    }
+    return violations;
+  }
+
+  private getRequestBody(request: Request): unknown {
+    try {
+      return request.postDataJSON();
+    } catch {
+      return request.postData();
+    }
+  }
+
   // Navigation helpers
   async navigateToPage(url: string): Promise<void> {
     await browserManager.navigateToPage(url);
@@ -51,50 +1233,289 @@ export class CustomWorld extends World {
   }
 
   // Element interaction helpers
-  async waitForElement(selector: string, timeout?: number): Promise<void> {
+  async waitForElement(selector: string | Locator, timeout?: number): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
     const actualTimeout = timeout || configManager.getTestConfig().timeout;
-    await this.page.waitForSelector(selector, { timeout: actualTimeout });
+    await this.locator(selector).first().waitFor({ timeout: actualTimeout });
+  }
+
+  async clickElement(selector: string | Locator): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    await this.locator(selector).click();
+  }
+
+  async fillInput(selector: string | Locator, text: string): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    await this.locator(selector).fill(text);
+  }
+
+  async getElementText(selector: string | Locator): Promise<string | null> {
+    if (!this.page) throw new Error('Page not initialized');
+    return await this.locator(selector).textContent();
   }
 
-  async clickElement(selector: string): Promise<void> {
+  async isElementVisible(selector: string | Locator): Promise<boolean> {
     if (!this.page) throw new Error('Page not initialized');
-    await this.page.locator(selector).click();
+    return await this.locator(selector).isVisible();
   }
 
-  async fillInput(selector: string, text: string): Promise<void> {
+  async isElementEnabled(selector: string | Locator): Promise<boolean> {
     if (!this.page) throw new Error('Page not initialized');
-    await this.page.locator(selector).fill(text);
+    return await this.locator(selector).isEnabled();
   }
 
-  async getElementText(selector: string): Promise<string | null> {
+  async selectOption(selector: string | Locator, option: string): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
-    return await this.page.locator(selector).textContent();
+    await this.locator(selector).selectOption(option);
   }
 
-  async isElementVisible(selector: string): Promise<boolean> {
+  async checkCheckbox(selector: string | Locator): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
-    return await this.page.locator(selector).isVisible();
+    await this.locator(selector).check();
   }
 
-  async isElementEnabled(selector: string): Promise<boolean> {
+  async uncheckCheckbox(selector: string | Locator): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
-    return await this.page.locator(selector).isEnabled();
+    await this.locator(selector).uncheck();
   }
 
-  async selectOption(selector: string, option: string): Promise<void> {
+  async hoverElement(selector: string | Locator): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
-    await this.page.locator(selector).selectOption(option);
+    await this.locator(selector).hover();
   }
 
-  async checkCheckbox(selector: string): Promise<void> {
+  async doubleClickElement(selector: string | Locator): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
-    await this.page.locator(selector).check();
+    await this.locator(selector).dblclick();
   }
 
-  async uncheckCheckbox(selector: string): Promise<void> {
+  async rightClickElement(selector: string | Locator): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
-    await this.page.locator(selector).uncheck();
+    await this.locator(selector).click({ button: 'right' });
+  }
+
+  // Keys and shortcuts use Playwright names, e.g. "Enter", "Escape" or "ControlOrMeta+A"
+  async pressKey(key: string, selector?: string | Locator): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    if (selector) {
+      await this.locator(selector).press(key);
+    } else {
+      await this.page.keyboard.press(key);
+    }
+  }
+
+  // Types key by key, for inputs that react to each keystroke (autocomplete, masks)
+  async typeText(selector: string | Locator, text: string, delay: number = 100): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    await this.locator(selector).pressSequentially(text, { delay });
+  }
+
+  async dragAndDrop(
+    sourceSelector: string | Locator,
+    targetSelector: string | Locator
+  ): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    await this.locator(sourceSelector).dragTo(this.locator(targetSelector));
+  }
+
+  async focusElement(selector: string | Locator): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    await this.locator(selector).focus();
+  }
+
+  async blurElement(selector: string | Locator): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+    await this.locator(selector).blur();
+  }
+
+  // Form helpers - each field is found as a "control" and filled according to its type
+  async fillForm(fields: FormField[]): Promise<void> {
+    for (const field of fields) {
+      const control = await this.findFormControl(field.name);
+      const value = this.interpolate(field.value);
+
+      switch (control.type) {
+        case 'select':
+          if (control.tag === 'select') {
+            await control.locator.selectOption(value);
+          } else {
+            // A custom dropdown: open it and pick the option
+            await control.locator.click();
+            await this.getScope().getByRole('option', { name: value, exact: true }).click();
+          }
+          break;
+        case 'checkbox':
+          await control.locator.setChecked(this.parseCheckedValue(field.name, value));
+          break;
+        case 'radio':
+          await (await this.findRadioOption(control, value)).check();
+          break;
+        case 'date':
+          await control.locator.fill(this.toDateInputValue(control.inputType, value));
+          break;
+        default:
+          await control.locator.fill(value);
+      }
+      this.logMessage(`Filled ${control.type} "${field.name}" with "${value}"`, 'debug');
+    }
+  }
+
+  // Differences between the form and the expected values, once they stop changing or time runs out
+  async verifyForm(fields: FormField[]): Promise<string[]> {
+    const expected: { control: FormControl; name: string; value: string }[] = [];
+    for (const field of fields) {
+      expected.push({
+        control: await this.findFormControl(field.name),
+        name: field.name,
+        value: this.interpolate(field.value),
+      });
+    }
+
+    const deadline = Date.now() + configManager.getLocatorConfig().timeout;
+    let mismatches: string[];
+    do {
+      mismatches = [];
+      for (const { control, name, value } of expected) {
+        const mismatch = await this.getFormFieldMismatch(control, value);
+        if (mismatch) {
+          mismatches.push(`"${name}": ${mismatch}`);
+        }
+      }
+      if (mismatches.length > 0 && Date.now() < deadline) {
+        await WaitHelper.sleep(250);
+      }
+    } while (mismatches.length > 0 && Date.now() < deadline);
+
+    return mismatches;
+  }
+
+  private async findFormControl(name: string): Promise<FormControl> {
+    const locator = await this.findElement('control', name);
+    const { tag, inputType, role } = await locator.evaluate((element: Element) => ({
+      tag: element.tagName.toLowerCase(),
+      inputType: (element.getAttribute('type') || '').toLowerCase(),
+      role: (element.getAttribute('role') || '').toLowerCase(),
+    }));
+
+    let type: FormControlType = 'text';
+    if (tag === 'select' || (tag !== 'input' && ['combobox', 'listbox'].includes(role))) {
+      type = 'select';
+    } else if (inputType === 'checkbox' || ['checkbox', 'switch'].includes(role)) {
+      type = 'checkbox';
+    } else if (
+      inputType === 'radio' ||
+      ['radiogroup', 'group'].includes(role) ||
+      tag === 'fieldset'
+    ) {
+      type = 'radio';
+    } else if (['date', 'datetime-local', 'month'].includes(inputType)) {
+      type = 'date';
+    }
+    return { locator, type, tag, inputType };
+  }
+
+  private async getFormFieldMismatch(
+    control: FormControl,
+    expected: string
+  ): Promise<string | null> {
+    let actual: string;
+    let matches: boolean;
+
+    switch (control.type) {
+      case 'checkbox': {
+        const checked = await control.locator.isChecked();
+        actual = String(checked);
+        matches = checked === this.parseCheckedValue('', expected);
+        break;
+      }
+      case 'select':
+      case 'radio': {
+        // Either the option's value or its label
+        const selected =
+          control.type === 'radio'
+            ? await this.getCheckedRadioOption(control)
+            : control.tag === 'select'
+              ? await control.locator.evaluate((element: Element) => {
+                  const option = (element as HTMLSelectElement).selectedOptions[0];
+                  return option ? { value: option.value, label: option.label.trim() } : null;
+                })
+              : { value: '', label: ((await control.locator.textContent()) || '').trim() };
+        actual = selected ? selected.label || selected.value : '(none)';
+        matches =
+          !!selected &&
+          [selected.value, selected.label].some(
+            option => option.toLowerCase() === expected.toLowerCase()
+          );
+        break;
+      }
+      case 'date':
+        actual = await control.locator.inputValue();
+        matches = actual === this.toDateInputValue(control.inputType, expected);
+        break;
+      default:
+        actual = await control.locator.inputValue();
+        matches = actual === expected;
+    }
+
+    return matches ? null : `expected "${expected}", got "${actual}"`;
+  }
+
+  // The radios of a group: the group element itself, or every radio sharing the found radio's name
+  private async getRadioOptions(control: FormControl): Promise<Locator> {
+    if (control.tag !== 'input') {
+      return control.locator.locator('input[type="radio"], [role="radio"]');
+    }
+    const groupName = await control.locator.getAttribute('name');
+    return groupName
+      ? this.locator(`input[type="radio"][name=${JSON.stringify(groupName)}]`)
+      : control.locator;
+  }
+
+  private async findRadioOption(control: FormControl, value: string): Promise<Locator> {
+    const options = await this.getRadioOptions(control);
+    const labels = await options.evaluateAll(readRadioOptions);
+    const index = labels.findIndex(option =>
+      [option.value, option.label].some(text => text.toLowerCase() === value.toLowerCase())
+    );
+    if (index === -1) {
+      throw new Error(
+        `Radio option "${value}" not found. Options: ${labels.map(option => option.label || option.value).join(', ')}`
+      );
+    }
+    return options.nth(index);
+  }
+
+  private async getCheckedRadioOption(
+    control: FormControl
+  ): Promise<{ value: string; label: string } | null> {
+    const options = await (await this.getRadioOptions(control)).evaluateAll(readRadioOptions);
+    return options.find(option => option.checked) || null;
+  }
+
+  private parseCheckedValue(field: string, value: string): boolean {
+    const normalized = value.trim().toLowerCase();
+    if (['true', 'yes', 'y', 'on', 'checked'].includes(normalized)) {
+      return true;
+    }
+    if (['false', 'no', 'n', 'off', 'unchecked'].includes(normalized)) {
+      return false;
+    }
+    throw new Error(`Checkbox${field ? ` "${field}"` : ''} takes true or false, got "${value}"`);
+  }
+
+  // Date inputs take YYYY-MM-DD; any date DateHelper.resolveDate understands is converted
+  private toDateInputValue(inputType: string, value: string): string {
+    const iso = /^\d{4}-\d{2}-\d{2}/.test(value.trim())
+      ? value.trim()
+      : DateHelper.resolveDate(value).toISOString();
+    switch (inputType) {
+      case 'month':
+        return iso.slice(0, 7);
+      case 'datetime-local':
+        return iso.length >= 16 ? iso.slice(0, 16) : `${iso.slice(0, 10)}T00:00`;
+      default:
+        return iso.slice(0, 10);
+    }
   }
 
   // Screenshot helpers
@@ -156,6 +1577,27 @@ export class CustomWorld extends World {
     this.scenarioData.clear();
   }
 
+  // Replace {{key}} or {{key.path}} placeholders with scenario data, e.g. {{generatedCustomer.personalInfo.email}}
+  interpolate(text: string): string {
+    return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, keyPath: string) => {
+      const [key, ...path] = keyPath.split('.');
+      const value = path.reduce((current, part) => current?.[part], this.getScenarioData(key));
+      if (value === undefined) {
+        throw new Error(`No scenario data for placeholder ${placeholder}`);
+      }
+      if (value instanceof Date) {
+        return value.toISOString();
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  // Values of parameterised scenario tags, e.g. '@as:' on '@as:admin' gives ['admin']
+  getTagValues(prefix: string): string[] {
+    const tags: string[] = this.getScenarioData('scenarioTags') || [];
+    return tags.filter(tag => tag.startsWith(prefix)).map(tag => tag.slice(prefix.length));
+  }
+
   // Test data storage (persistent across scenarios in same feature)
   storeData(key: string, data: any): void {
     testDataManager.storeData(key, data);
@@ -190,7 +1632,6 @@ export class CustomWorld extends World {
     const screenshotPath = await this.takeScreenshot(name);
     if (screenshotPath && this.page) {
       try {
-        const fs = require('fs');
         const screenshot = fs.readFileSync(screenshotPath);
         this.addAttachment(screenshot, 'image/png', `${name}.png`);
       } catch (error) {
@@ -199,6 +1640,98 @@ export class CustomWorld extends World {
     }
   }
 
+  // Trace helpers - one trace chunk per scenario, kept according to TRACE_MODE
+  async startTrace(attempt: number = 0): Promise<void> {
+    const { traceMode } = configManager.getBrowserConfig();
+    const record =
+      traceMode === 'on' ||
+      traceMode === 'retain-on-failure' ||
+      (traceMode === 'on-first-retry' && attempt === 1);
+
+    if (record) {
+      await browserManager.startTracing(this.getScenarioData('scenarioName'));
+      this.setScenarioData('tracing', true);
+    }
+  }
+
+  async finishTrace(failed: boolean): Promise<string[]> {
+    if (!this.getScenarioData('tracing')) {
+      return [];
+    }
+
+    const keep = configManager.getBrowserConfig().traceMode !== 'retain-on-failure' || failed;
+    const tracePath = keep
+      ? `reports/traces/${this.getScenarioSlug()}-${Date.now()}.zip`
+      : undefined;
+    const tracePaths = await browserManager.stopTracing(tracePath);
+    this.setScenarioData('tracing', false);
+    return tracePaths;
+  }
+
+  attachTrace(tracePath: string): void {
+    this.addAttachment(
+      `Trace: ${tracePath}\nView with: npx playwright show-trace ${tracePath}`,
+      'text/plain',
+      'trace.txt'
+    );
+
+    if (configManager.getReportConfig().includeTraces) {
+      try {
+        this.addAttachment(fs.readFileSync(tracePath), 'application/zip', tracePath);
+      } catch (error) {
+        this.logMessage(`Failed to attach trace: ${error}`, 'warn');
+      }
+    }
+  }
+
+  // Video helpers - one video per page of the scenario, kept according to VIDEO_MODE
+  getSessionVideos(): SessionVideo[] {
+    return browserManager.getSessionVideos();
+  }
+
+  /**
+   * Rename the scenario's videos after the scenario, or delete them when the
+   * scenario passed under `retain-on-failure`. Must run after the session has
+   * been closed, because Playwright only finishes a video when its page closes.
+   */
+  async saveVideos(videos: SessionVideo[], failed: boolean): Promise<string[]> {
+    const keep = configManager.getBrowserConfig().videoMode === 'on' || failed;
+    const timestamp = Date.now();
+    const videoPaths: string[] = [];
+
+    for (const { name, video } of videos) {
+      try {
+        if (keep) {
+          const suffix = name ? `-${name}` : '';
+          const videoPath = `reports/videos/${this.getScenarioSlug()}${suffix}-${timestamp}.webm`;
+          await video.saveAs(videoPath);
+          videoPaths.push(videoPath);
+        }
+        await video.delete();
+      } catch (error) {
+        this.logMessage(`Failed to process scenario video: ${error}`, 'warn');
+      }
+    }
+
+    return videoPaths;
+  }
+
+  attachVideo(videoPath: string): void {
+    if (configManager.getReportConfig().includeVideos) {
+      try {
+        this.addAttachment(fs.readFileSync(videoPath), 'video/webm', videoPath);
+        return;
+      } catch (error) {
+        this.logMessage(`Failed to attach video: ${error}`, 'warn');
+      }
+    }
+    this.addAttachment(`Video: ${videoPath}`, 'text/plain', 'video.txt');
+  }
+
+  getScenarioSlug(): string {
+    return (this.getScenarioData('scenarioName') || 'scenario').replace(/[^a-zA-Z0-9]/g, '-');
+  }
+
   // Configuration helpers
   getBaseURL(): string {
     return configManager.getTestConfig().baseURL;
@@ -208,6 +1741,11 @@ export class CustomWorld extends World {
     return configManager.getTestConfig().timeout;
   }
 
+  // For waits and expect.poll in steps: below the step timeout, so their own error is shown
+  getPollTimeout(): number {
+    return configManager.getLocatorConfig().timeout;
+  }
+
   isDebugMode(): boolean {
     return configManager.isDebugMode();
   }
@@ -250,28 +1788,15 @@ export class CustomWorld extends World {
     }
   }
 
-  // Helper method to get page URL mapping
+  // Registered pages open at their declared path; other names at /<name>
   getPageUrl(pageName: string): string {
     // If it's already a full URL, return as is
     if (pageName.startsWith('http://') || pageName.startsWith('https://')) {
       return pageName;
     }
 
-    const pageUrls: Record<string, string> = {
-      // TODO: to be updated according to the application.
-      home: '/',
-      login: '/login',
-      dashboard: '/dashboard',
-      profile: '/profile',
-      settings: '/settings',
-      quote: '/quote',
-      policy: '/policy',
-      claims: '/claims',
-      about: '/about',
-      contact: '/contact',
-    };
-
-    return pageUrls[pageName.toLowerCase()] || `/${pageName.toLowerCase()}`;
+    const pageClass = pageRegistry.get(pageName);
+    return pageClass ? pageClass.path! : `/${pageName.toLowerCase()}`;
   }
 
   // Validation helpers
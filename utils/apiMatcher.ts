@@ -0,0 +1,44 @@
+export type RouteUrl = string | ((url: URL) => boolean);
+
+export interface ApiSpec {
+  method?: string;
+  url: RouteUrl;
+  description: string;
+}
+
+/**
+ * Parses the API specs used by the network steps: a URL part (`/api/quotes`)
+ * or a glob containing `*`, optionally prefixed by a method (`POST /api/quotes`).
+ */
+export class ApiMatcher {
+  static parse(api: string): ApiSpec {
+    const methodMatch = api.trim().match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(.+)$/i);
+    const method = methodMatch ? methodMatch[1].toUpperCase() : undefined;
+    const pattern = methodMatch ? methodMatch[2].trim() : api.trim();
+
+    const url: RouteUrl = pattern.includes('*')
+      ? pattern
+      : (requestUrl: URL) => requestUrl.href.includes(pattern);
+
+    return { method, url, description: api.trim() };
+  }
+
+  static matches(spec: ApiSpec, method: string, url: string): boolean {
+    if (spec.method && method.toUpperCase() !== spec.method) {
+      return false;
+    }
+    if (typeof spec.url === 'function') {
+      return spec.url(new URL(url));
+    }
+    return this.globToRegExp(spec.url).test(url);
+  }
+
+  private static globToRegExp(glob: string): RegExp {
+    const source = glob
+      .replace(/[.+^${}()|[\]\\?]/g, '\\$&')
+      .replace(/\*\*/g, '\u0000')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\u0000/g, '.*');
+    return new RegExp(`^${source}$`);
+  }
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Page } from 'playwright';
+import browserManager from './browserManager';
+import configManager, { UserCredentials } from './configManager';
+
+export type LoginFlow = (page: Page, credentials: UserCredentials, role: string) => Promise<void>;
+
+interface StoredCookie {
+  expires: number;
+}
+
+/**
+ * Logs each role in once per run and caches the resulting Playwright
+ * `storageState` under `reports/.auth/<env>/<role>.json`, so scenarios tagged
+ * `@as:<role>` start already authenticated.
+ */
+export class AuthManager {
+  private static instance: AuthManager;
+  // In-flight lookups, so parallel callers share one login; settled ones are dropped so
+  // the next call checks the cached state's expiry again
+  private pendingLogins: Map<string, Promise<string>> = new Map();
+  private loginFlow: LoginFlow;
+
+  private constructor() {
+    this.loginFlow = this.defaultLoginFlow.bind(this);
+  }
+
+  static getInstance(): AuthManager {
+    if (!AuthManager.instance) {
+      AuthManager.instance = new AuthManager();
+    }
+    return AuthManager.instance;
+  }
+
+  /**
+   * Replace the form-based login used to create storage states, for apps whose
+   * login page does not fit the configurable selectors.
+   */
+  registerLoginFlow(flow: LoginFlow): void {
+    this.loginFlow = flow;
+    this.pendingLogins.clear();
+  }
+
+  /**
+   * Return the path of a valid storage state for `role`, logging in first if
+   * there is no cached state or it has expired.
+   */
+  async getStorageState(role: string): Promise<string> {
+    const roles = configManager.getUserRoles();
+    if (!roles.includes(role)) {
+      throw new Error(`Unknown role: ${role}. Valid roles: ${roles.join(', ')}`);
+    }
+
+    let pending = this.pendingLogins.get(role);
+    if (!pending) {
+      const lookup = this.resolveStorageState(role);
+      const settle = () => {
+        if (this.pendingLogins.get(role) === lookup) {
+          this.pendingLogins.delete(role);
+        }
+      };
+      lookup.then(settle, settle);
+      this.pendingLogins.set(role, lookup);
+      pending = lookup;
+    }
+
+    return pending;
+  }
+
+  async invalidate(role: string): Promise<void> {
+    this.pendingLogins.delete(role);
+    await fs.rm(this.getStorageStatePath(role), { force: true });
+  }
+
+  getStorageStatePath(role: string): string {
+    return path.join(configManager.getAuthConfig().storageStateDir, `${role}.json`);
+  }
+
+  private async resolveStorageState(role: string): Promise<string> {
+    const statePath = this.getStorageStatePath(role);
+
+    if (await this.isStateValid(statePath)) {
+      if (configManager.isDebugMode()) {
+        console.log(`Reusing cached storage state for role: ${role}`);
+      }
+      return statePath;
+    }
+
+    await fs.rm(statePath, { force: true });
+    await this.login(role, statePath);
+    return statePath;
+  }
+
+  private async login(role: string, statePath: string): Promise<void> {
+    console.log(`Logging in as "${role}" to create storage state...`);
+
+    const credentials = configManager.getUserCredentials(role);
+    const context = await browserManager.newContext();
+
+    try {
+      const page = await context.newPage();
+      page.setDefaultTimeout(configManager.getTestConfig().timeout);
+
+      await this.loginFlow(page, credentials, role);
+
+      await fs.mkdir(path.dirname(statePath), { recursive: true });
+      await context.storageState({ path: statePath });
+      console.log(`Storage state saved: ${statePath}`);
+    } catch (error) {
+      await fs.rm(statePath, { force: true });
+      throw new Error(`Login failed for role "${role}": ${(error as Error).message}`);
+    } finally {
+      await context.close();
+    }
+  }
+
+  private async defaultLoginFlow(page: Page, credentials: UserCredentials): Promise<void> {
+    const authConfig = configManager.getAuthConfig();
+    const loginUrl = `${configManager.getTestConfig().baseURL}${authConfig.loginPath}`;
+
+    await page.goto(loginUrl);
+    await page.locator(authConfig.emailSelector).first().fill(credentials.email);
+    await page.locator(authConfig.passwordSelector).first().fill(credentials.password);
+    await page.locator(authConfig.submitSelector).first().click();
+
+    if (authConfig.successSelector) {
+      await page.locator(authConfig.successSelector).first().waitFor({ state: 'visible' });
+    } else {
+      await page.waitForURL(url => !url.pathname.startsWith(authConfig.loginPath));
+    }
+  }
+
+  private async isStateValid(statePath: string): Promise<boolean> {
+    try {
+      const stats = await fs.stat(statePath);
+      const ageMinutes = (Date.now() - stats.mtimeMs) / 60000;
+      if (ageMinutes > configManager.getAuthConfig().stateTtlMinutes) {
+        return false;
+      }
+
+      const state = JSON.parse(await fs.readFile(statePath, 'utf8'));
+      const nowSeconds = Date.now() / 1000;
+      // Session cookies have expires = -1 and never expire on their own
+      return !(state.cookies || []).some(
+        (cookie: StoredCookie) => cookie.expires > 0 && cookie.expires < nowSeconds
+      );
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default AuthManager.getInstance();
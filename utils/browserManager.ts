@@ -1,13 +1,51 @@
-import { Browser, BrowserContext, Page, chromium, firefox, webkit } from 'playwright';
+import {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  Page,
+  Video,
+  chromium,
+  firefox,
+  webkit,
+} from 'playwright';
 import configManager, { BrowserConfig } from './configManager';
+import { DeviceProfiles } from './deviceProfiles';
+import harManager from './harManager';
+
+export interface SessionOptions {
+  sharedSession?: boolean;
+  contextOptions?: BrowserContextOptions;
+  // HAR recording to record into or replay from when NETWORK_MODE is not live
+  harName?: string;
+}
+
+export interface SessionVideo {
+  // '' for the scenario's first page, otherwise e.g. 'tab2', 'agent' or 'agent-tab2'
+  name: string;
+  video: Video;
+}
 
 export class BrowserManager {
   private static instance: BrowserManager;
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
+  private sessionPage: Page | null = null;
   private page: Page | null = null;
+  private actorSessions: Map<string, { context: BrowserContext; page: Page }> = new Map();
+  // Tabs and popups opened by the app that no step has switched to yet
+  private newPages: Page[] = [];
+  private seenPages: WeakSet<Page> = new WeakSet();
+  private configuredPages: WeakSet<Page> = new WeakSet();
+  // Every page opened during the session, in order, for per-scenario videos
+  private sessionPages: Page[] = [];
+  // Per-scenario trace chunks; tracing itself is started once per context
+  private traceTitle: string | null = null;
+  private tracedContexts: WeakSet<BrowserContext> = new WeakSet();
+  private openTraceChunks: Set<BrowserContext> = new Set();
+  private harName: string | null = null;
   private config: BrowserConfig;
   private isInitialized: boolean = false;
+  private sharedSession: boolean = false;
 
   private constructor() {
     this.config = configManager.getBrowserConfig();
@@ -26,23 +64,12 @@ export class BrowserManager {
     }
 
     try {
-      console.log(`Launching ${this.config.browser} browser`);
-
-      const browserType = this.getBrowserType();
-      this.browser = await browserType.launch({
-        headless: this.config.headless,
-        args: [
-          '--no-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-        ],
-        slowMo: this.config.slowMo,
-      });
-
-      await this.createContext();
-      await this.createPage();
+      const browser = this.isRemoteBrowser()
+        ? await this.connectBrowser()
+        : await this.launchBrowser();
+      browser.on('disconnected', () => this.onDisconnected(browser));
 
+      this.browser = browser;
       this.isInitialized = true;
       console.log(`Browser initialized`);
     } catch (error) {
@@ -51,62 +78,407 @@ export class BrowserManager {
     }
   }
 
-  private async createContext(): Promise<void> {
-    if (!this.browser) {
-      throw new Error('Browser not initialized');
+  private async launchBrowser(): Promise<Browser> {
+    console.log(`Launching ${this.config.browser} browser`);
+
+    return this.getBrowserType().launch({
+      headless: this.config.headless,
+      args: [
+        '--no-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-web-security',
+        '--disable-features=VizDisplayCompositor',
+      ],
+      slowMo: this.config.slowMo,
+    });
+  }
+
+  /**
+   * Connect to a browser server (BROWSER_WS_ENDPOINT, e.g. started with
+   * `launchServer()` in a sidecar container) or to a Chromium with remote
+   * debugging enabled (BROWSER_CDP_URL), retrying with a growing delay.
+   */
+  private async connectBrowser(): Promise<Browser> {
+    const endpoint = this.config.wsEndpoint || this.config.cdpUrl;
+    const attempts = Math.max(1, this.config.connectRetries);
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      console.log(
+        `Connecting to ${this.config.browser} browser at ${endpoint} (attempt ${attempt}/${attempts})`
+      );
+      try {
+        const options = { timeout: this.config.timeout, slowMo: this.config.slowMo };
+        return this.config.wsEndpoint
+          ? await this.getBrowserType().connect(this.config.wsEndpoint, options)
+          : await chromium.connectOverCDP(this.config.cdpUrl, options);
+      } catch (error) {
+        lastError = error;
+        if (attempt < attempts) {
+          await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+        }
+      }
+    }
+
+    throw new Error(
+      `Could not connect to the browser at ${endpoint} after ${attempts} attempt(s). ` +
+        `Check that the browser server is running and reachable from this machine. ` +
+        `Last error: ${(lastError as Error)?.message}`
+    );
+  }
+
+  /**
+   * A crashed browser or a dropped connection to a remote one leaves every
+   * context unusable. Forget them, so the next session launches or reconnects.
+   */
+  private onDisconnected(browser: Browser): void {
+    // cleanup() closing the browser on purpose
+    if (this.browser !== browser) {
+      return;
+    }
+
+    console.warn(`Lost connection to the ${this.config.browser} browser, reconnecting on next use`);
+    this.browser = null;
+    this.isInitialized = false;
+    this.context = null;
+    this.page = null;
+    this.sessionPage = null;
+    this.actorSessions.clear();
+    this.sharedSession = false;
+    this.newPages = [];
+    this.sessionPages = [];
+  }
+
+  private isRemoteBrowser(): boolean {
+    return Boolean(this.config.wsEndpoint || this.config.cdpUrl);
+  }
+
+  /**
+   * Open a fresh context and page for the next scenario. The browser itself is
+   * launched once per worker and reused. When `sharedSession` is true and the
+   * previous scenario also ran with a shared session, its context is reused
+   * instead (the `@shared-session` tag) and `contextOptions` are ignored.
+   */
+  async startSession(options: SessionOptions = {}): Promise<Page> {
+    const sharedSession = options.sharedSession ?? false;
+    await this.initializeBrowser();
+
+    if (sharedSession && this.sharedSession && this.sessionPage) {
+      this.page = this.sessionPage;
+      return this.sessionPage;
+    }
+
+    await this.closeSession();
+
+    this.harName = options.harName || null;
+    this.context = await this.createContext(options.contextOptions);
+    this.sessionPage = await this.createPage(this.context);
+    this.page = this.sessionPage;
+    this.sharedSession = sharedSession;
+
+    return this.page;
+  }
+
+  /**
+   * Close the scenario's actor sessions, and its own context unless it was
+   * opened as a shared session.
+   */
+  async endSession(): Promise<void> {
+    await this.closeActorSessions();
+    this.traceTitle = null;
+
+    if (this.sharedSession) {
+      this.page = this.sessionPage;
+      this.sessionPages = this.sessionPages.filter(page => page.context() === this.context);
+      return;
+    }
+    await this.closeSession();
+  }
+
+  /**
+   * Close the current context, pages and actor sessions, shared or not.
+   */
+  async closeSession(): Promise<void> {
+    await this.closeActorSessions();
+
+    try {
+      if (this.context) {
+        await this.closeContext(this.context);
+      }
+    } catch (error) {
+      console.error('Error while closing browser context:', error);
+    } finally {
+      this.page = null;
+      this.sessionPage = null;
+      this.context = null;
+      this.harName = null;
+      this.sharedSession = false;
+      this.newPages = [];
+      this.sessionPages = [];
+    }
+  }
+
+  /**
+   * Open an additional, isolated context for a named actor of the current
+   * scenario (e.g. an agent and a customer working side by side).
+   */
+  async openActorSession(actor: string, contextOptions: BrowserContextOptions = {}): Promise<Page> {
+    const existing = this.actorSessions.get(actor);
+    if (existing) {
+      return existing.page;
+    }
+
+    const context = await this.createContext(contextOptions);
+    const page = await this.createPage(context);
+    this.actorSessions.set(actor, { context, page });
+
+    if (configManager.isDebugMode()) {
+      console.log(`Opened browser session for actor: ${actor}`);
+    }
+
+    return page;
+  }
+
+  private async closeActorSessions(): Promise<void> {
+    for (const [actor, session] of this.actorSessions) {
+      try {
+        await this.closeContext(session.context);
+      } catch (error) {
+        console.error(`Error while closing session for actor ${actor}:`, error);
+      }
+    }
+    this.actorSessions.clear();
+  }
+
+  private async closeContext(context: BrowserContext): Promise<void> {
+    // An unfinished trace chunk is discarded together with the context
+    this.openTraceChunks.delete(context);
+    await context.close();
+    // A HAR recording is only written once its context is closed
+    await harManager.saveRecording(context);
+  }
+
+  /**
+   * Record a trace chunk titled after the scenario in every context of the
+   * scenario, including actor contexts opened later on.
+   */
+  async startTracing(title: string): Promise<void> {
+    this.traceTitle = title;
+    for (const [, context] of this.getSessionContexts()) {
+      await this.startTraceChunk(context);
+    }
+  }
+
+  /**
+   * Finish the scenario's trace chunks. With a `tracePath` the chunks are saved
+   * (actor chunks get the actor name appended) and their paths returned;
+   * without one they are discarded.
+   */
+  async stopTracing(tracePath?: string): Promise<string[]> {
+    const savedPaths: string[] = [];
+
+    for (const [actor, context] of this.getSessionContexts()) {
+      if (!this.openTraceChunks.has(context)) {
+        continue;
+      }
+      const path = tracePath && actor ? tracePath.replace(/\.zip$/, `-${actor}.zip`) : tracePath;
+      try {
+        await context.tracing.stopChunk(path ? { path } : {});
+        if (path) {
+          savedPaths.push(path);
+        }
+      } catch (error) {
+        console.warn(`Could not stop trace chunk${actor ? ` for actor ${actor}` : ''}:`, error);
+      }
+      this.openTraceChunks.delete(context);
     }
 
-    const contextOptions: any = {
+    this.traceTitle = null;
+    return savedPaths;
+  }
+
+  private async startTraceChunk(context: BrowserContext): Promise<void> {
+    const title = this.traceTitle || undefined;
+    if (this.tracedContexts.has(context)) {
+      await context.tracing.startChunk({ title });
+    } else {
+      // start() opens the first chunk itself
+      await context.tracing.start({ screenshots: true, snapshots: true, sources: true, title });
+      this.tracedContexts.add(context);
+    }
+    this.openTraceChunks.add(context);
+  }
+
+  /**
+   * Videos of every page of the current scenario, including closed tabs and
+   * actor sessions. Videos are only complete once their context is closed, so
+   * shared sessions (which outlive the scenario) report none.
+   */
+  getSessionVideos(): SessionVideo[] {
+    if (this.sharedSession) {
+      return [];
+    }
+
+    const contextNames = new Map(
+      this.getSessionContexts().map(([actor, context]) => [context, actor])
+    );
+    const pageCounts = new Map<string, number>();
+
+    return this.sessionPages.flatMap(page => {
+      const video = page.video();
+      const owner = contextNames.get(page.context());
+      if (!video || owner === undefined) {
+        return [];
+      }
+      const index = (pageCounts.get(owner) || 0) + 1;
+      pageCounts.set(owner, index);
+      const name = [owner, index > 1 ? `tab${index}` : ''].filter(Boolean).join('-');
+      return [{ name, video }];
+    });
+  }
+
+  // The scenario's own context (under an empty name) followed by its actor contexts
+  private getSessionContexts(): Array<[string, BrowserContext]> {
+    const contexts: Array<[string, BrowserContext]> = this.context ? [['', this.context]] : [];
+    for (const [actor, session] of this.actorSessions) {
+      contexts.push([actor, session.context]);
+    }
+    return contexts;
+  }
+
+  /**
+   * Open a bare context outside the scenario lifecycle (no tracing or video),
+   * e.g. for a one-off login. The caller is responsible for closing it.
+   */
+  async newContext(overrides: BrowserContextOptions = {}): Promise<BrowserContext> {
+    await this.initializeBrowser();
+    return this.browser!.newContext({ ...this.getContextOptions(), ...overrides });
+  }
+
+  private getContextOptions(): BrowserContextOptions {
+    return {
       viewport: this.config.viewport,
       ignoreHTTPSErrors: true,
       acceptDownloads: true,
       locale: configManager.getEnvVar('LOCALE', 'en-GB'),
-      // timezoneId: configManager.getEnvVar('TIMEZONE', 'America/New_York')
+      // Unset means the timezone of the machine running the browser
+      timezoneId: configManager.getEnvVar('TIMEZONE') || undefined,
+      ...(this.config.device ? this.getDeviceOptions(this.config.device) : {}),
     };
+  }
+
+  /**
+   * Emulation options for a Playwright device (the DEVICE setting or a
+   * `@device:<name>` tag) in the configured browser.
+   */
+  getDeviceOptions(device: string): BrowserContextOptions {
+    return DeviceProfiles.getContextOptions(device, this.config.browser);
+  }
+
+  private async createContext(overrides: BrowserContextOptions = {}): Promise<BrowserContext> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized');
+    }
+
+    const contextOptions: BrowserContextOptions = { ...this.getContextOptions(), ...overrides };
 
     // Add video recording if enabled
-    if (this.config.recordVideo) {
+    if (this.config.videoMode !== 'off') {
       contextOptions.recordVideo = {
         dir: 'reports/videos/',
-        size: this.config.viewport,
+        size: contextOptions.viewport || this.config.viewport,
       };
     }
 
-    this.context = await this.browser.newContext(contextOptions);
+    const context = await this.browser.newContext(contextOptions);
 
-    // Start tracing if enabled
-    if (this.config.recordTrace) {
-      await this.context.tracing.start({
-        screenshots: true,
-        snapshots: true,
-        sources: true,
-      });
+    // Track tabs and popups opened from this context
+    context.on('page', page => this.onPageOpened(page));
+
+    // Record or replay the session's traffic according to NETWORK_MODE
+    if (this.harName && harManager.isEnabled()) {
+      try {
+        await harManager.attach(context, this.harName);
+      } catch (error) {
+        await context.close();
+        throw error;
+      }
+    }
+
+    // Contexts opened mid-scenario (actors) join the scenario's trace
+    if (this.traceTitle) {
+      await this.startTraceChunk(context);
     }
+
+    return context;
+  }
+
+  private async createPage(context: BrowserContext): Promise<Page> {
+    const page = await context.newPage();
+    this.configurePage(page);
+    this.markPageSeen(page);
+    return page;
   }
 
-  private async createPage(): Promise<void> {
-    if (!this.context) {
-      throw new Error('Browser context not initialized');
+  private onPageOpened(page: Page): void {
+    this.configurePage(page);
+
+    if (this.seenPages.has(page)) {
+      return;
     }
+    this.newPages.push(page);
+    page.once('close', () => {
+      this.newPages = this.newPages.filter(newPage => newPage !== page);
+    });
 
-    this.page = await this.context.newPage();
+    if (configManager.isDebugMode()) {
+      console.log(`New tab opened: ${page.url()}`);
+    }
+  }
+
+  private markPageSeen(page: Page): void {
+    this.seenPages.add(page);
+    this.newPages = this.newPages.filter(newPage => newPage !== page);
+  }
+
+  /**
+   * Return the oldest tab or popup of `context` that no step has switched to
+   * yet, waiting for one to open if there is none.
+   */
+  async waitForNewPage(
+    context: BrowserContext,
+    timeout: number = this.config.timeout
+  ): Promise<Page> {
+    const pending = this.newPages.find(page => page.context() === context);
+    const page = pending || (await context.waitForEvent('page', { timeout }));
+    this.markPageSeen(page);
+    return page;
+  }
+
+  private configurePage(page: Page): void {
+    // Both context.newPage() and the context 'page' event land here
+    if (this.configuredPages.has(page)) {
+      return;
+    }
+    this.configuredPages.add(page);
+    this.sessionPages.push(page);
 
     // Set timeouts
-    this.page.setDefaultTimeout(this.config.timeout);
-    this.page.setDefaultNavigationTimeout(this.config.timeout);
+    page.setDefaultTimeout(this.config.timeout);
+    page.setDefaultNavigationTimeout(this.config.timeout);
 
     // Add console and error listeners
-    this.page.on('console', msg => {
+    page.on('console', msg => {
       if (configManager.getEnvBool('DEBUG_CONSOLE')) {
         console.log(`🖥️ Browser Console [${msg.type()}]: ${msg.text()}`);
       }
     });
 
-    this.page.on('pageerror', error => {
+    page.on('pageerror', error => {
       console.error(`Page Error: ${error.message}`);
     });
 
-    this.page.on('requestfailed', request => {
+    page.on('requestfailed', request => {
       if (configManager.isDebugMode()) {
         console.warn(`Request failed: ${request.url()} - ${request.failure()?.errorText}`);
       }
@@ -200,26 +572,13 @@ export class BrowserManager {
 
   async cleanup(): Promise<void> {
     try {
-      // Stop tracing if enabled
-      if (this.config.recordTrace && this.context) {
-        await this.context.tracing.stop({
-          path: `reports/traces/trace-${Date.now()}.zip`,
-        });
-      }
-
-      if (this.page) {
-        await this.page.close();
-        this.page = null;
-      }
-
-      if (this.context) {
-        await this.context.close();
-        this.context = null;
-      }
+      await this.closeSession();
 
       if (this.browser) {
-        await this.browser.close();
+        // Disconnects from a remote browser rather than shutting it down
+        const browser = this.browser;
         this.browser = null;
+        await browser.close();
       }
 
       this.isInitialized = false;
@@ -234,6 +593,14 @@ export class BrowserManager {
     return this.page;
   }
 
+  /**
+   * Make `page` the target of navigation, reload and screenshot helpers.
+   */
+  setActivePage(page: Page): void {
+    this.markPageSeen(page);
+    this.page = page;
+  }
+
   getContext(): BrowserContext | null {
     return this.context;
   }
@@ -246,9 +613,22 @@ export class BrowserManager {
     return this.isInitialized && this.page !== null;
   }
 
+  isBrowserLaunched(): boolean {
+    return this.isInitialized && this.browser !== null;
+  }
+
+  isSharedSession(): boolean {
+    return this.sharedSession;
+  }
+
   getBrowserInfo(): string {
     if (!this.browser) return 'Not initialized';
-    return `${this.config.browser} (headless: ${this.config.headless})`;
+    const device = this.config.device ? `, device: ${this.config.device}` : '';
+    if (this.isRemoteBrowser()) {
+      const endpoint = this.config.wsEndpoint || this.config.cdpUrl;
+      return `${this.config.browser} (remote: ${endpoint}${device})`;
+    }
+    return `${this.config.browser} (headless: ${this.config.headless}${device})`;
   }
 }
 
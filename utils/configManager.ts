@@ -1,8 +1,17 @@
 import * as dotenv from 'dotenv';
+import { DeviceProfiles } from './deviceProfiles';
 
 // Load environment variables
 dotenv.config();
 
+export type TraceMode = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry';
+
+export type VideoMode = 'off' | 'on' | 'retain-on-failure';
+
+export type NetworkMode = 'live' | 'record' | 'replay';
+
+export type ConsolePolicy = 'off' | 'warn' | 'fail';
+
 export interface BrowserConfig {
   browser: 'chromium' | 'firefox' | 'webkit' | 'chrome';
   headless: boolean;
@@ -12,8 +21,18 @@ export interface BrowserConfig {
   };
   timeout: number;
   slowMo: number;
-  recordVideo: boolean;
-  recordTrace: boolean;
+  // Per-scenario video policy (VIDEO_MODE, or RECORD_VIDEO=true for 'on')
+  videoMode: VideoMode;
+  // Per-scenario Playwright trace policy (TRACE_MODE, or RECORD_TRACE=true for 'on')
+  traceMode: TraceMode;
+  // Playwright device descriptor name, e.g. "iPhone 12" or "Pixel 5"
+  device: string;
+  // Connect to a Playwright browser server (launchServer) instead of launching a browser
+  wsEndpoint: string;
+  // Connect to a running Chromium over the Chrome DevTools Protocol instead
+  cdpUrl: string;
+  // Connection attempts before giving up on a remote browser
+  connectRetries: number;
 }
 
 export interface TestConfig {
@@ -30,10 +49,49 @@ export interface UserCredentials {
   firstName?: string;
   lastName?: string;
   role?: string;
+  // Looked up by key in the "I enter my {word}" steps
+  [key: string]: string | undefined;
+}
+
+export interface AuthConfig {
+  loginPath: string;
+  emailSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  successSelector: string;
+  storageStateDir: string;
+  stateTtlMinutes: number;
+}
+
+export interface NetworkConfig {
+  // live: real backend, record: save traffic to HAR files, replay: serve traffic from them
+  mode: NetworkMode;
+  harDir: string;
+  // Recordings live in <harDir>/<harVersion>/, so re-recording can go to a new folder
+  harVersion: string;
+  // Only requests matching this glob are recorded and replayed, e.g. "**/api/**"
+  harUrlFilter: string;
+}
+
+export interface LocatorConfig {
+  // Strategies the common steps try in order to find a named button, field, dropdown or checkbox
+  strategies: string[];
+  // Attribute used by the "testid" strategy, e.g. data-testid or data-qa
+  testIdAttribute: string;
+  // How long to wait for any strategy to match; keep it below the step timeout
+  timeout: number;
+}
+
+export interface ConsoleConfig {
+  // What to do with uncaught page errors, console errors and failed requests
+  policy: ConsolePolicy;
+  // Known-noise patterns, one regular expression per line
+  allowlistFile: string;
 }
 
 export interface ReportConfig {
   outputDir: string;
+  cucumberJsonFile: string;
   formats: string[];
   includeScreenshots: boolean;
   includeVideos: boolean;
@@ -62,8 +120,16 @@ class ConfigManager {
       },
       timeout: parseInt(process.env.TIMEOUT || '60000'),
       slowMo: parseInt(process.env.SLOW_MO || '0'),
-      recordVideo: process.env.RECORD_VIDEO === 'true',
-      recordTrace: process.env.RECORD_TRACE === 'true',
+      videoMode:
+        (process.env.VIDEO_MODE as VideoMode) ||
+        (process.env.RECORD_VIDEO === 'true' ? 'on' : 'off'),
+      traceMode:
+        (process.env.TRACE_MODE as TraceMode) ||
+        (process.env.RECORD_TRACE === 'true' ? 'on' : 'off'),
+      device: process.env.DEVICE || '',
+      wsEndpoint: process.env.BROWSER_WS_ENDPOINT || '',
+      cdpUrl: process.env.BROWSER_CDP_URL || '',
+      connectRetries: this.getEnvNumber('BROWSER_CONNECT_RETRIES', 3),
     };
   }
 
@@ -78,7 +144,16 @@ class ConfigManager {
   }
 
   getUserCredentials(role: string = 'default'): UserCredentials {
-    const users: Record<string, UserCredentials> = {
+    const users = this.getUsers();
+    return users[role] || users.default;
+  }
+
+  getUserRoles(): string[] {
+    return Object.keys(this.getUsers());
+  }
+
+  private getUsers(): Record<string, UserCredentials> {
+    return {
       default: {
         email: process.env.DEFAULT_USER_EMAIL || 'test@example.com',
         password: process.env.DEFAULT_USER_PASSWORD || 'password123',
@@ -100,13 +175,56 @@ class ConfigManager {
         role: 'agent',
       },
     };
+  }
 
-    return users[role] || users.default;
+  getAuthConfig(): AuthConfig {
+    return {
+      loginPath: process.env.LOGIN_PATH || '/login',
+      emailSelector:
+        process.env.LOGIN_EMAIL_SELECTOR ||
+        '[data-testid="email-input"], input[name="email"], input[type="email"]',
+      passwordSelector:
+        process.env.LOGIN_PASSWORD_SELECTOR ||
+        '[data-testid="password-input"], input[name="password"], input[type="password"]',
+      submitSelector:
+        process.env.LOGIN_SUBMIT_SELECTOR || '[data-testid="login-button"], button[type="submit"]',
+      successSelector: process.env.LOGIN_SUCCESS_SELECTOR || '',
+      storageStateDir: `${this.getReportConfig().outputDir}/.auth/${this.getEnvironment()}`,
+      stateTtlMinutes: this.getEnvNumber('AUTH_STATE_TTL_MINUTES', 60),
+    };
+  }
+
+  getNetworkConfig(): NetworkConfig {
+    return {
+      mode: (process.env.NETWORK_MODE as NetworkMode) || 'live',
+      harDir: process.env.HAR_DIR || 'fixtures/har',
+      harVersion: process.env.HAR_VERSION || 'v1',
+      harUrlFilter: process.env.HAR_URL_FILTER || '',
+    };
+  }
+
+  getConsoleConfig(): ConsoleConfig {
+    return {
+      policy: (process.env.CONSOLE_POLICY as ConsolePolicy) || 'off',
+      allowlistFile: process.env.CONSOLE_ALLOWLIST_FILE || 'data/console-allowlist.txt',
+    };
+  }
+
+  getLocatorConfig(): LocatorConfig {
+    return {
+      strategies: (process.env.LOCATOR_STRATEGIES || 'testid,role,label,placeholder,css')
+        .split(',')
+        .map(strategy => strategy.trim())
+        .filter(Boolean),
+      testIdAttribute: process.env.TEST_ID_ATTRIBUTE || 'data-testid',
+      timeout: parseInt(process.env.LOCATOR_TIMEOUT || '3000'),
+    };
   }
 
   getReportConfig(): ReportConfig {
     return {
       outputDir: process.env.REPORTS_DIR || 'reports',
+      cucumberJsonFile: process.env.CUCUMBER_JSON_REPORT || 'reports/cucumber/cucumber-report.json',
       formats: (process.env.REPORT_FORMATS || 'json,html').split(','),
       includeScreenshots: process.env.INCLUDE_SCREENSHOTS !== 'false',
       includeVideos: process.env.INCLUDE_VIDEOS === 'true',
@@ -132,6 +250,44 @@ class ConfigManager {
       );
     }
 
+    const validTraceModes: TraceMode[] = ['off', 'on', 'retain-on-failure', 'on-first-retry'];
+    if (!validTraceModes.includes(browserConfig.traceMode)) {
+      throw new Error(
+        `Invalid TRACE_MODE: ${browserConfig.traceMode}. Valid options: ${validTraceModes.join(', ')}`
+      );
+    }
+
+    const validVideoModes: VideoMode[] = ['off', 'on', 'retain-on-failure'];
+    if (!validVideoModes.includes(browserConfig.videoMode)) {
+      throw new Error(
+        `Invalid VIDEO_MODE: ${browserConfig.videoMode}. Valid options: ${validVideoModes.join(', ')}`
+      );
+    }
+
+    const validNetworkModes: NetworkMode[] = ['live', 'record', 'replay'];
+    const networkMode = this.getNetworkConfig().mode;
+    if (!validNetworkModes.includes(networkMode)) {
+      throw new Error(
+        `Invalid NETWORK_MODE: ${networkMode}. Valid options: ${validNetworkModes.join(', ')}`
+      );
+    }
+
+    const validConsolePolicies: ConsolePolicy[] = ['off', 'warn', 'fail'];
+    const consolePolicy = this.getConsoleConfig().policy;
+    if (!validConsolePolicies.includes(consolePolicy)) {
+      throw new Error(
+        `Invalid CONSOLE_POLICY: ${consolePolicy}. Valid options: ${validConsolePolicies.join(', ')}`
+      );
+    }
+
+    const locatorConfig = this.getLocatorConfig();
+    if (locatorConfig.strategies.length === 0) {
+      throw new Error('LOCATOR_STRATEGIES must name at least one locator strategy');
+    }
+    if (isNaN(locatorConfig.timeout) || locatorConfig.timeout < 0) {
+      throw new Error(`Invalid LOCATOR_TIMEOUT: ${process.env.LOCATOR_TIMEOUT}`);
+    }
+
     const testConfig = this.getTestConfig();
     if (!testConfig.baseURL.startsWith('http')) {
       throw new Error(
@@ -146,6 +302,20 @@ class ConfigManager {
     if (browserConfig.viewport.width < 320 || browserConfig.viewport.height < 240) {
       throw new Error('Viewport dimensions are too small. Minimum 320x240 required');
     }
+
+    if (browserConfig.wsEndpoint && browserConfig.cdpUrl) {
+      throw new Error('Set either BROWSER_WS_ENDPOINT or BROWSER_CDP_URL, not both');
+    }
+
+    if (browserConfig.cdpUrl && !['chromium', 'chrome'].includes(browserConfig.browser)) {
+      throw new Error(
+        `BROWSER_CDP_URL only works with chromium or chrome, not ${browserConfig.browser}`
+      );
+    }
+
+    if (browserConfig.device && !DeviceProfiles.resolveDeviceName(browserConfig.device)) {
+      throw new Error(`Invalid DEVICE: ${browserConfig.device}. Must be a Playwright device name`);
+    }
   }
 
   getEnvironment(): string {
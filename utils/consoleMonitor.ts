@@ -0,0 +1,77 @@
+import fs from 'fs';
+import configManager from './configManager';
+
+export type ConsoleIssueType = 'page-error' | 'console-error' | 'request-failed';
+
+export interface ConsoleIssue {
+  type: ConsoleIssueType;
+  actor: string;
+  message: string;
+  url: string;
+  timestamp: string;
+}
+
+/**
+ * Decides which browser errors collected during a scenario count against the
+ * console policy. Known noise is listed in the allowlist file, one regular
+ * expression per line, matched against "<message> <url>".
+ */
+export class ConsoleMonitor {
+  private static instance: ConsoleMonitor;
+  private allowlist: RegExp[] | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ConsoleMonitor {
+    if (!ConsoleMonitor.instance) {
+      ConsoleMonitor.instance = new ConsoleMonitor();
+    }
+    return ConsoleMonitor.instance;
+  }
+
+  getViolations(issues: ConsoleIssue[]): ConsoleIssue[] {
+    return issues.filter(issue => !this.isAllowed(issue));
+  }
+
+  isAllowed(issue: ConsoleIssue): boolean {
+    const text = `${issue.message} ${issue.url}`;
+    return this.getAllowlist().some(pattern => pattern.test(text));
+  }
+
+  formatIssues(issues: ConsoleIssue[]): string {
+    return issues
+      .map(issue => {
+        const allowed = this.isAllowed(issue) ? ' (allowed)' : '';
+        return `[${issue.type}]${allowed} ${issue.actor}: ${issue.message}${issue.url ? ` - ${issue.url}` : ''}`;
+      })
+      .join('\n');
+  }
+
+  private getAllowlist(): RegExp[] {
+    if (this.allowlist) {
+      return this.allowlist;
+    }
+
+    const { allowlistFile } = configManager.getConsoleConfig();
+    this.allowlist = [];
+    if (!fs.existsSync(allowlistFile)) {
+      return this.allowlist;
+    }
+
+    fs.readFileSync(allowlistFile, 'utf8')
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .forEach(line => {
+        try {
+          this.allowlist!.push(new RegExp(line, 'i'));
+        } catch (error) {
+          console.warn(`Ignoring invalid pattern in ${allowlistFile}: ${line}`);
+        }
+      });
+
+    return this.allowlist;
+  }
+}
+
+export default ConsoleMonitor.getInstance();
@@ -13,6 +13,23 @@ interface ReportOptions {
   metadata: Record<string, string>;
 }
 
+type ScenarioStatus = 'passed' | 'failed' | 'skipped' | 'not run';
+
+export interface MatrixScenarioResult {
+  feature: string;
+  scenario: string;
+  line: number;
+  results: Record<string, ScenarioStatus>;
+}
+
+export interface MatrixReport {
+  runs: string[];
+  scenarios: MatrixScenarioResult[];
+  summary: Record<string, { passed: number; failed: number; skipped: number }>;
+}
+
+export const MATRIX_REPORT_DIR = 'reports/cucumber/matrix';
+
 export class CucumberReportGenerator {
   private static instance: CucumberReportGenerator;
 
@@ -34,7 +51,7 @@ export class CucumberReportGenerator {
 
       const options: ReportOptions = {
         theme: 'bootstrap',
-        jsonFile: 'reports/cucumber/cucumber-report.json',
+        jsonFile: reportConfig.cucumberJsonFile,
         output: 'reports/cucumber/cucumber-report-enhanced.html',
         reportSuiteAsScenarios: true,
         scenarioTimestamp: true,
@@ -186,6 +203,154 @@ export class CucumberReportGenerator {
     return summary;
   }
 
+  /**
+   * Merge the per-run JSON files of a cross-browser matrix run into one report
+   * with a pass/fail column per browser (and device).
+   */
+  async generateMatrixReport(
+    matrixDir: string = MATRIX_REPORT_DIR,
+    runOrder: string[] = []
+  ): Promise<MatrixReport> {
+    const available = (await fs.readdir(matrixDir))
+      .filter(file => file.endsWith('.json'))
+      .map(file => path.basename(file, '.json'))
+      .sort();
+    if (available.length === 0) {
+      throw new Error(`No matrix result files found in ${matrixDir}`);
+    }
+
+    // Keep the column order of the matrix definition when it is known
+    const runs = runOrder.length ? runOrder.filter(run => available.includes(run)) : available;
+    const files = runs.map(run => `${run}.json`);
+    const scenarios = new Map<string, MatrixScenarioResult>();
+    const summary: MatrixReport['summary'] = {};
+
+    for (const [index, file] of files.entries()) {
+      const run = runs[index];
+      summary[run] = { passed: 0, failed: 0, skipped: 0 };
+      const report = JSON.parse(await fs.readFile(path.join(matrixDir, file), 'utf8'));
+
+      report.forEach((feature: any) => {
+        (feature.elements || [])
+          .filter((scenario: any) => scenario.type === 'scenario')
+          .forEach((scenario: any) => {
+            const key = `${feature.uri}:${scenario.line}`;
+            if (!scenarios.has(key)) {
+              scenarios.set(key, {
+                feature: feature.name,
+                scenario: scenario.name,
+                line: scenario.line,
+                results: {},
+              });
+            }
+
+            const status = this.getScenarioStatus(scenario);
+            scenarios.get(key)!.results[run] = status;
+            summary[run][status as 'passed' | 'failed' | 'skipped']++;
+          });
+      });
+    }
+
+    // Scenarios excluded from some runs (e.g. browser-specific tags) show as "not run"
+    for (const scenario of scenarios.values()) {
+      runs.forEach(run => {
+        scenario.results[run] = scenario.results[run] || 'not run';
+      });
+    }
+
+    const matrixReport: MatrixReport = { runs, scenarios: [...scenarios.values()], summary };
+
+    const jsonPath = 'reports/cucumber/cross-browser-report.json';
+    const htmlPath = 'reports/cucumber/cross-browser-report.html';
+    await fs.writeFile(jsonPath, JSON.stringify(matrixReport, null, 2));
+    await fs.writeFile(htmlPath, this.renderMatrixHtml(matrixReport));
+
+    console.log('\nCROSS-BROWSER SUMMARY');
+    console.log('==========================');
+    runs.forEach(run => {
+      const { passed, failed, skipped } = summary[run];
+      console.log(`${run}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+    });
+    console.log(`Cross-browser report: ${htmlPath}`);
+
+    return matrixReport;
+  }
+
+  private getScenarioStatus(scenario: any): ScenarioStatus {
+    const results = [
+      ...(scenario.before || []),
+      ...(scenario.steps || []),
+      ...(scenario.after || []),
+    ]
+      .map((step: any) => step.result?.status)
+      .filter(Boolean);
+
+    if (results.includes('failed')) {
+      return 'failed';
+    }
+    if (results.some((status: string) => status !== 'passed')) {
+      return 'skipped';
+    }
+    return 'passed';
+  }
+
+  private renderMatrixHtml(report: MatrixReport): string {
+    const escape = (text: string): string =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const colors: Record<ScenarioStatus, string> = {
+      passed: '#2e7d32',
+      failed: '#c62828',
+      skipped: '#f9a825',
+      'not run': '#9e9e9e',
+    };
+
+    const header = report.runs.map(run => `<th>${escape(run)}</th>`).join('');
+    const rows = report.scenarios
+      .map(scenario => {
+        const cells = report.runs
+          .map(run => {
+            const status = scenario.results[run];
+            return `<td style="color:${colors[status]};font-weight:bold">${status}</td>`;
+          })
+          .join('');
+        return `<tr><td>${escape(scenario.feature)}</td><td>${escape(scenario.scenario)}</td>${cells}</tr>`;
+      })
+      .join('\n');
+    const totals = report.runs
+      .map(run => {
+        const { passed, failed, skipped } = report.summary[run];
+        return `<td>${passed} / ${failed} / ${skipped}</td>`;
+      })
+      .join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Cross-Browser Report</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ddd; padding: 6px 10px; text-align: left; }
+th { background: #f5f5f5; }
+tfoot td { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Cross-Browser Report</h1>
+<p>Environment: ${escape(configManager.getEnvironment())} | Generated: ${new Date().toLocaleString()}</p>
+<table>
+<thead><tr><th>Feature</th><th>Scenario</th>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+<tfoot><tr><td colspan="2">Passed / Failed / Skipped</td>${totals}</tr></tfoot>
+</table>
+</body>
+</html>
+`;
+  }
+
   private formatDuration(nanoseconds: number): string {
     const milliseconds = nanoseconds / 1000000;
     const seconds = Math.floor(milliseconds / 1000);
@@ -242,8 +407,11 @@ export class CucumberReportGenerator {
 if (require.main === module) {
   const reportGenerator = CucumberReportGenerator.getInstance();
 
-  reportGenerator
-    .generateReport()
+  const generate = process.argv.includes('--matrix')
+    ? reportGenerator.generateMatrixReport().then(() => undefined)
+    : reportGenerator.generateReport();
+
+  generate
     .then(() => {
       if (process.argv.includes('--open')) {
         return reportGenerator.openReport();
@@ -1,16 +1,20 @@
+import testClock from './testClock';
+
+export type TimeUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
 export class DateHelper {
   static getCurrentDate(): string {
-    return new Date().toISOString().split('T')[0];
+    return testClock.now().toISOString().split('T')[0];
   }
 
   static getFutureDate(days: number): string {
-    const date = new Date();
+    const date = testClock.now();
     date.setDate(date.getDate() + days);
     return date.toISOString().split('T')[0];
   }
 
   static getPastDate(days: number): string {
-    const date = new Date();
+    const date = testClock.now();
     date.setDate(date.getDate() - days);
     return date.toISOString().split('T')[0];
   }
@@ -25,10 +29,90 @@ export class DateHelper {
   }
 
   static isDateInFuture(date: string | Date): boolean {
-    return new Date(date) > new Date();
+    return new Date(date) > testClock.now();
   }
 
   static isDateInPast(date: string | Date): boolean {
-    return new Date(date) < new Date();
+    return new Date(date) < testClock.now();
+  }
+
+  // Completed years between the date of birth and today
+  static calculateAge(dateOfBirth: string | Date): number {
+    const birth = new Date(dateOfBirth);
+    const today = testClock.now();
+    const age = today.getFullYear() - birth.getFullYear();
+    const hadBirthday =
+      today.getMonth() > birth.getMonth() ||
+      (today.getMonth() === birth.getMonth() && today.getDate() >= birth.getDate());
+    return hadBirthday ? age : age - 1;
+  }
+
+  // A date without a time is taken as 12:00 UTC, so it is the same day in every timezone
+  static parseDate(value: string): Date {
+    const trimmed = value.trim();
+    const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T12:00:00Z` : trimmed);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD or an ISO date-time`);
+    }
+    return date;
+  }
+
+  // Like parseDate, also accepting "today", "tomorrow", "yesterday", "in 30 days" and "2 years ago"
+  static resolveDate(value: string): Date {
+    const trimmed = value.trim().toLowerCase();
+    const days: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+    if (Object.prototype.hasOwnProperty.call(days, trimmed)) {
+      return this.addTime(testClock.now(), days[trimmed], 'days');
+    }
+
+    const relative =
+      trimmed.match(/^in\s+(\d+)\s+(\w+)$/) || trimmed.match(/^(\d+)\s+(\w+)\s+ago$/);
+    if (relative) {
+      const amount = Number(relative[1]) * (trimmed.endsWith('ago') ? -1 : 1);
+      return this.addTime(testClock.now(), amount, this.parseTimeUnit(relative[2]));
+    }
+    return this.parseDate(value);
+  }
+
+  // Accepts singular or plural unit names, e.g. "day" or "days"
+  static parseTimeUnit(unit: string): TimeUnit {
+    const units: Record<string, TimeUnit> = {
+      minute: 'minutes',
+      hour: 'hours',
+      day: 'days',
+      week: 'weeks',
+      month: 'months',
+      year: 'years',
+    };
+    const timeUnit = units[unit.toLowerCase().replace(/s$/, '')];
+    if (!timeUnit) {
+      throw new Error(`Unknown time unit: ${unit}. Use ${Object.values(units).join(', ')}`);
+    }
+    return timeUnit;
+  }
+
+  static addTime(date: Date, amount: number, unit: TimeUnit): Date {
+    const result = new Date(date);
+    switch (unit) {
+      case 'minutes':
+        result.setUTCMinutes(result.getUTCMinutes() + amount);
+        break;
+      case 'hours':
+        result.setUTCHours(result.getUTCHours() + amount);
+        break;
+      case 'days':
+        result.setUTCDate(result.getUTCDate() + amount);
+        break;
+      case 'weeks':
+        result.setUTCDate(result.getUTCDate() + amount * 7);
+        break;
+      case 'months':
+        result.setUTCMonth(result.getUTCMonth() + amount);
+        break;
+      case 'years':
+        result.setUTCFullYear(result.getUTCFullYear() + amount);
+        break;
+    }
+    return result;
   }
 }
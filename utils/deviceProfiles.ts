@@ -0,0 +1,67 @@
+import { BrowserContextOptions, devices } from 'playwright';
+
+export type DeviceDescriptor = (typeof devices)[string];
+
+export class DeviceProfiles {
+  // Project names from playwright.config.ts, so the same names work for DEVICE and @device:<name>
+  private static readonly aliases: Record<string, string> = {
+    'mobile chrome': 'Pixel 5',
+    'mobile safari': 'iPhone 12',
+    'microsoft edge': 'Desktop Edge',
+    'google chrome': 'Desktop Chrome',
+  };
+
+  static resolveDeviceName(name: string): string | null {
+    const normalized = this.normalize(name);
+    const alias = this.aliases[normalized];
+    if (alias) {
+      return alias;
+    }
+    return (
+      Object.keys(devices).find(deviceName => this.normalize(deviceName) === normalized) || null
+    );
+  }
+
+  static getDescriptor(name: string): DeviceDescriptor {
+    const deviceName = this.resolveDeviceName(name);
+    if (!deviceName) {
+      const [firstWord] = this.normalize(name).split(' ');
+      const suggestions = Object.keys(devices)
+        .filter(deviceName => this.normalize(deviceName).includes(firstWord))
+        .slice(0, 5);
+      throw new Error(
+        `Unknown device: ${name}.` +
+          (suggestions.length ? ` Did you mean: ${suggestions.join(', ')}?` : '')
+      );
+    }
+    return devices[deviceName];
+  }
+
+  /**
+   * Context options (user agent, viewport, touch, DPR, isMobile) for a device,
+   * adjusted for the browser actually being launched.
+   */
+  static getContextOptions(name: string, browser: string): BrowserContextOptions {
+    const { defaultBrowserType, ...options } = this.getDescriptor(name);
+    const browserType = browser === 'chrome' ? 'chromium' : browser;
+
+    if (defaultBrowserType !== browserType) {
+      console.warn(
+        `Device "${name}" is normally emulated in ${defaultBrowserType}, running in ${browser}`
+      );
+    }
+
+    // Firefox does not support mobile emulation
+    if (browserType === 'firefox' && options.isMobile) {
+      console.warn(`isMobile is not supported in firefox, emulating "${name}" without it`);
+      return { ...options, isMobile: undefined };
+    }
+
+    return options;
+  }
+
+  // Tags cannot contain spaces, so iPhone_12, iphone-12 and "iPhone 12" are all the same device
+  private static normalize(name: string): string {
+    return name.replace(/[_-]+/g, ' ').trim().toLowerCase();
+  }
+}
@@ -0,0 +1,278 @@
+import path from 'path';
+import { deflateSync, inflateSync } from 'zlib';
+
+export type GeneratedFileType = 'png' | 'pdf' | 'txt';
+
+// The shape accepted by Playwright's setInputFiles() and FileChooser.setFiles()
+export interface GeneratedFile {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.zip': 'application/zip',
+};
+
+// CRC-32 lookup table for PNG chunks (zlib.crc32 needs Node 20.15 or later)
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export class FileHelper {
+  static getMediaType(fileName: string): string {
+    return MEDIA_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+  }
+
+  /**
+   * Synthesize a valid PNG, PDF or TXT file of exactly `sizeKb` kilobytes (or
+   * the smallest valid file, if that is larger), so upload tests do not depend
+   * on checked-in binaries.
+   */
+  static generateFile(type: string, sizeKb: number, name?: string): GeneratedFile {
+    const size = Math.round(sizeKb * 1024);
+    if (!(size > 0)) {
+      throw new Error(`Cannot generate a file of ${sizeKb} KB. The size must be positive`);
+    }
+    const generators: Record<GeneratedFileType, (size: number) => Buffer> = {
+      png: bytes => this.generatePng(bytes),
+      pdf: bytes => this.generatePdf(bytes),
+      txt: bytes => this.generateText(bytes),
+    };
+
+    const fileType = type.toLowerCase().replace(/^\./, '') as GeneratedFileType;
+    const generate = generators[fileType];
+    if (!generate) {
+      throw new Error(
+        `Cannot generate a ${type} file. Supported types: ${Object.keys(generators).join(', ')}`
+      );
+    }
+
+    const fileName = name || `generated-${sizeKb}kb.${fileType}`;
+    return { name: fileName, mimeType: this.getMediaType(fileName), buffer: generate(size) };
+  }
+
+  /**
+   * Parse CSV text into rows of cells. Handles quoted cells with commas, quotes
+   * ("") and line breaks; blank lines are skipped.
+   */
+  static parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    row.push(cell);
+    rows.push(row);
+
+    return rows.filter(cells => cells.some(value => value.trim() !== ''));
+  }
+
+  /**
+   * Extract the text of a PDF from the text operators of its content streams.
+   * Good enough for generated documents (policies, invoices); text in fonts
+   * with custom encodings (e.g. CID fonts) comes out garbled.
+   */
+  static extractPdfText(pdf: Buffer): string {
+    const source = pdf.toString('latin1');
+    const streamPattern = /(?<!end)stream\r?\n/g;
+    const texts: string[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = streamPattern.exec(source))) {
+      const start = match.index + match[0].length;
+      const end = source.indexOf('endstream', start);
+      if (end === -1) {
+        break;
+      }
+
+      const dictionary = source.slice(source.lastIndexOf('obj', match.index), match.index);
+      let content = source.slice(start, end);
+      if (dictionary.includes('/FlateDecode')) {
+        try {
+          content = inflateSync(Buffer.from(content, 'latin1')).toString('latin1');
+        } catch {
+          // Images and other binary streams
+          continue;
+        }
+      }
+      texts.push(this.extractTextOperators(content));
+      streamPattern.lastIndex = end;
+    }
+
+    return texts
+      .join('\n')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ ?\n ?/g, '\n')
+      .trim();
+  }
+
+  private static extractTextOperators(content: string): string {
+    const operators =
+      /\[((?:\\.|[^\]\\])*)\]\s*TJ|(\((?:\\.|[^)\\])*\)|<[0-9A-Fa-f\s]*>)\s*(?:Tj|'|")|T\*|-?[\d.]+\s+-?[\d.]+\s+T[dD]|ET/g;
+    let text = '';
+    let match: RegExpExecArray | null;
+
+    while ((match = operators.exec(content))) {
+      if (match[1] !== undefined) {
+        // TJ arrays mix strings with kerning offsets; large offsets separate words
+        const parts = match[1].match(/\((?:\\.|[^)\\])*\)|<[0-9A-Fa-f\s]*>|-?[\d.]+/g) || [];
+        text += parts
+          .map(part =>
+            /^-?[\d.]+$/.test(part) ? (Number(part) < -200 ? ' ' : '') : this.decodeString(part)
+          )
+          .join('');
+      } else if (match[2] !== undefined) {
+        text += this.decodeString(match[2]);
+      } else {
+        text += '\n';
+      }
+    }
+
+    return text;
+  }
+
+  private static decodeString(value: string): string {
+    if (value.startsWith('<')) {
+      const hex = value.slice(1, -1).replace(/\s/g, '');
+      return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1');
+    }
+
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    return value.slice(1, -1).replace(/\\(\r?\n|[0-7]{1,3}|.)/g, (_, escaped: string) => {
+      if (/^\r?\n$/.test(escaped)) {
+        return '';
+      }
+      if (/^[0-7]+$/.test(escaped)) {
+        return String.fromCharCode(parseInt(escaped, 8));
+      }
+      return escapes[escaped] ?? escaped;
+    });
+  }
+
+  // A grey image as large as fits in the size, padded to it with a text chunk
+  private static generatePng(size: number): Buffer {
+    const chunk = (type: string, data: Buffer): Buffer => {
+      const length = Buffer.alloc(4);
+      length.writeUInt32BE(data.length);
+      const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+      const crc = Buffer.alloc(4);
+      crc.writeUInt32BE(crc32(body));
+      return Buffer.concat([length, body, crc]);
+    };
+
+    // Uncompressed RGB scanlines, each prefixed with a filter byte
+    const side = Math.max(1, Math.floor(Math.sqrt(size / 3)) - 4);
+    const scanline = Buffer.concat([Buffer.from([0]), Buffer.alloc(side * 3, 0xc0)]);
+    const pixels = deflateSync(Buffer.concat(Array(side).fill(scanline)), { level: 0 });
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(side, 0);
+    header.writeUInt32BE(side, 4);
+    header.set([8, 2, 0, 0, 0], 8);
+
+    const parts = [
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk('IHDR', header),
+      chunk('IDAT', pixels),
+    ];
+    const end = chunk('IEND', Buffer.alloc(0));
+
+    // A tEXt chunk costs 12 bytes plus its keyword, its NUL separator and the text
+    const padding = size - parts.reduce((total, part) => total + part.length, 0) - end.length;
+    if (padding >= 20) {
+      parts.push(chunk('tEXt', Buffer.from(`Comment\0${'x'.repeat(padding - 20)}`, 'latin1')));
+    }
+    return Buffer.concat([...parts, end]);
+  }
+
+  // A one-page PDF saying it is a generated document, padded with a comment
+  private static generatePdf(size: number): Buffer {
+    const build = (padding: string): string => {
+      const content = 'BT /F1 18 Tf 72 720 Td (Generated test document) Tj ET';
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R ' +
+          '/Resources << /Font << /F1 5 0 R >> >> >>',
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      ];
+
+      let pdf = `%PDF-1.4\n${padding}`;
+      const offsets = objects.map((object, index) => {
+        const offset = pdf.length;
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+
+      const xrefOffset = pdf.length;
+      pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+      pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+      return pdf;
+    };
+
+    const pad = (bytes: number): string => (bytes >= 2 ? `%${'x'.repeat(bytes - 2)}\n` : '');
+
+    // Padding also lengthens the startxref number, so correct for that on a second pass
+    const padding = size - build('').length;
+    const overshoot = build(pad(padding)).length - size;
+    return Buffer.from(build(pad(padding - overshoot)), 'latin1');
+  }
+
+  private static generateText(size: number): Buffer {
+    const line = 'Generated test document for upload scenarios.\n';
+    return Buffer.from(line.repeat(Math.ceil(size / line.length)).slice(0, size));
+  }
+}
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BrowserContext, Route } from 'playwright';
+import configManager from './configManager';
+import { WaitHelper } from './waitHelper';
+
+interface HarFile {
+  log: {
+    pages?: unknown[];
+    entries: unknown[];
+    // Custom HAR field: the run that wrote the file, so later recordings of that run append
+    _recordingRun?: string;
+  };
+}
+
+// A lock older than this was left behind by a crashed process; merging a HAR takes far less
+const STALE_LOCK_MS = 10000;
+
+interface Recording {
+  harName: string;
+  tempPath: string;
+}
+
+/**
+ * Records real backend traffic into HAR files and replays it offline, driven by
+ * NETWORK_MODE. A HAR is named after the feature file, or after the scenario's
+ * `@har:<name>` tag, and stored as `<HAR_DIR>/<HAR_VERSION>/<name>.har`.
+ */
+export class HarManager {
+  private static instance: HarManager;
+  private recordings: Map<BrowserContext, Recording> = new Map();
+  // Shared by every worker of a --parallel run: workers are forked by the coordinator
+  private runId: string = String(process.env.CUCUMBER_WORKER_ID ? process.ppid : process.pid);
+  private missedRequests: string[] = [];
+  private recordingCount: number = 0;
+
+  private constructor() {}
+
+  static getInstance(): HarManager {
+    if (!HarManager.instance) {
+      HarManager.instance = new HarManager();
+    }
+    return HarManager.instance;
+  }
+
+  isEnabled(): boolean {
+    return configManager.getNetworkConfig().mode !== 'live';
+  }
+
+  getHarPath(harName: string): string {
+    const { harDir, harVersion } = configManager.getNetworkConfig();
+    return path.join(harDir, harVersion, `${harName}.har`);
+  }
+
+  /**
+   * Start recording `context` into the named HAR, or serve its requests from
+   * that HAR, according to NETWORK_MODE.
+   */
+  async attach(context: BrowserContext, harName: string): Promise<void> {
+    const { mode, harUrlFilter } = configManager.getNetworkConfig();
+    const url = harUrlFilter || undefined;
+
+    if (mode === 'record') {
+      // Playwright writes a fresh HAR per context on close, so every context
+      // records to its own file and is merged into the named HAR afterwards
+      const tempPath = path.join(
+        path.dirname(this.getHarPath(harName)),
+        '.recording',
+        `${harName}-${process.pid}-${++this.recordingCount}.har`
+      );
+      await context.routeFromHAR(tempPath, { update: true, updateContent: 'embed', url });
+      this.recordings.set(context, { harName, tempPath });
+      return;
+    }
+
+    if (mode === 'replay') {
+      const harPath = this.getHarPath(harName);
+      try {
+        await fs.access(harPath);
+      } catch {
+        throw new Error(
+          `No HAR recording "${harName}" at ${harPath}. Record it first with NETWORK_MODE=record`
+        );
+      }
+
+      // Registered before the HAR route, so it only sees requests the HAR could not answer
+      await context.route(url || '**/*', (route: Route) => this.onMissedRequest(route));
+      await context.routeFromHAR(harPath, { notFound: 'fallback', url });
+    }
+  }
+
+  /**
+   * Merge a recorded context into its HAR. Must run after the context has been
+   * closed, because that is when Playwright writes the recording.
+   */
+  async saveRecording(context: BrowserContext): Promise<string | null> {
+    const recording = this.recordings.get(context);
+    if (!recording) {
+      return null;
+    }
+    this.recordings.delete(context);
+
+    const harPath = this.getHarPath(recording.harName);
+    try {
+      const recorded: HarFile = JSON.parse(await fs.readFile(recording.tempPath, 'utf8'));
+
+      // The first recording of a run replaces the stored HAR, later ones (from any
+      // worker) add to it; the lock keeps parallel workers from overwriting each other
+      await fs.mkdir(path.dirname(harPath), { recursive: true });
+      await this.withLock(harPath, async () => {
+        const existing = await this.readHar(harPath);
+        if (existing?.log._recordingRun === this.runId) {
+          existing.log.entries.push(...recorded.log.entries);
+          existing.log.pages = [...(existing.log.pages || []), ...(recorded.log.pages || [])];
+          await fs.writeFile(harPath, JSON.stringify(existing, null, 2));
+        } else {
+          recorded.log._recordingRun = this.runId;
+          await fs.writeFile(harPath, JSON.stringify(recorded, null, 2));
+        }
+      });
+
+      if (configManager.isDebugMode()) {
+        console.log(`Recorded ${recorded.log.entries.length} request(s) into ${harPath}`);
+      }
+      return harPath;
+    } catch (error) {
+      console.warn(`Could not save HAR recording ${recording.harName}:`, error);
+      return null;
+    } finally {
+      await fs.rm(recording.tempPath, { force: true });
+    }
+  }
+
+  private async readHar(harPath: string): Promise<HarFile | null> {
+    try {
+      return JSON.parse(await fs.readFile(harPath, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // Runs `action` holding `<file>.lock`, created exclusively so only one process gets it
+  private async withLock(filePath: string, action: () => Promise<void>): Promise<void> {
+    const lockPath = `${filePath}.lock`;
+    // Saving runs in the scenario cleanup hook, so give up well within its TIMEOUT
+    const deadline =
+      Date.now() + Math.min(STALE_LOCK_MS * 2, configManager.getTestConfig().timeout / 2);
+
+    let locked = false;
+    while (!locked) {
+      try {
+        await fs.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+        locked = true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for another worker to release ${lockPath}`);
+        }
+        const lock = await fs.stat(lockPath).catch(() => null);
+        if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+          await fs.rm(lockPath, { force: true });
+        } else {
+          await WaitHelper.sleep(50);
+        }
+      }
+    }
+
+    try {
+      await action();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Requests made during replay that were not found in the HAR, since the last call.
+   */
+  takeMissedRequests(): string[] {
+    const missed = this.missedRequests;
+    this.missedRequests = [];
+    return missed;
+  }
+
+  private async onMissedRequest(route: Route): Promise<void> {
+    const request = route.request();
+    this.missedRequests.push(`${request.method()} ${request.url()}`);
+
+    if (configManager.isDebugMode()) {
+      console.warn(`Not in HAR: ${request.method()} ${request.url()}`);
+    }
+
+    // Replay runs offline, so anything missing from the HAR fails like a dropped connection
+    await route.abort('internetdisconnected');
+  }
+}
+
+export default HarManager.getInstance();
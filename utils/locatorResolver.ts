@@ -0,0 +1,279 @@
+import { FrameLocator, Locator, Page } from 'playwright';
+import configManager from './configManager';
+import { WaitHelper } from './waitHelper';
+
+// A control is any form input (text, select, checkbox, radio group), for the form steps
+export type ElementKind = 'button' | 'field' | 'dropdown' | 'checkbox' | 'control' | 'element';
+
+export type LocatorScope = Page | FrameLocator;
+
+export interface LocatorCandidate {
+  locator: Locator;
+  // How the strategy looks for the element, shown in logs and errors
+  description: string;
+}
+
+// Returns null when the strategy does not apply to that kind of element
+export type LocatorStrategy = (
+  scope: LocatorScope,
+  kind: ElementKind,
+  name: string
+) => LocatorCandidate | null;
+
+export interface StrategyCandidate {
+  strategy: string;
+  candidate: LocatorCandidate | null;
+}
+
+export interface ResolvedLocator {
+  locator: Locator;
+  // The strategy that matched, or null when none did and the locator combines them all
+  strategy: string | null;
+  description: string;
+  // More than one means no strategy matched a single element; Playwright's strict
+  // mode then rejects actions and assertions on the locator
+  count: number;
+}
+
+interface ResolutionAttempt {
+  resolved?: ResolvedLocator;
+  // Candidates that could be evaluated, whether or not they matched
+  candidates: LocatorCandidate[];
+  report: string[];
+}
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+const ROLES: Partial<Record<ElementKind, AriaRole[]>> = {
+  button: ['button'],
+  field: ['textbox'],
+  dropdown: ['combobox'],
+  checkbox: ['checkbox'],
+  // 'group' (e.g. a fieldset named by its legend) only counts when it holds radios
+  control: ['textbox', 'combobox', 'listbox', 'checkbox', 'radiogroup', 'group', 'spinbutton'],
+};
+
+const RADIO_SELECTOR = 'input[type="radio"], [role="radio"]';
+
+const TEST_ID_SUFFIXES: Record<ElementKind, string[]> = {
+  button: ['-button'],
+  field: ['-input'],
+  dropdown: ['-select'],
+  checkbox: ['-checkbox'],
+  control: ['-input', '-select', '-checkbox', '-radio'],
+  element: [''],
+};
+
+// A double-quoted CSS string
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+const BUILT_IN_STRATEGIES: Record<string, LocatorStrategy> = {
+  testid: (scope, kind, name) => {
+    const { testIdAttribute } = configManager.getLocatorConfig();
+    const testId = kind === 'element' ? name : name.toLowerCase();
+    const selector = TEST_ID_SUFFIXES[kind]
+      .map(suffix => `[${testIdAttribute}=${quote(`${testId}${suffix}`)}]`)
+      .join(', ');
+    return { locator: scope.locator(selector), description: selector };
+  },
+  role: (scope, kind, name) => {
+    const roles = ROLES[kind];
+    if (!roles) {
+      return null;
+    }
+    const [first, ...others] = roles.map(role =>
+      role === 'group'
+        ? scope.getByRole(role, { name }).filter({ has: scope.locator(RADIO_SELECTOR) })
+        : scope.getByRole(role, { name })
+    );
+    return {
+      locator: others.reduce((combined, locator) => combined.or(locator), first),
+      description: `getByRole(${roles.map(role => `'${role}'`).join(' | ')}, { name: ${quote(name)} })`,
+    };
+  },
+  label: (scope, kind, name) =>
+    kind === 'element'
+      ? null
+      : { locator: scope.getByLabel(name), description: `getByLabel(${quote(name)})` },
+  placeholder: (scope, kind, name) =>
+    kind === 'field' || kind === 'control'
+      ? { locator: scope.getByPlaceholder(name), description: `getByPlaceholder(${quote(name)})` }
+      : null,
+  // The selectors the common steps have always used; an element name is taken as the selector
+  css: (scope, kind, name) => {
+    const selectors: Record<ElementKind, string> = {
+      button: `button:has-text(${quote(name)})`,
+      field: `input[name=${quote(name)}], input[placeholder*=${quote(name)}]`,
+      dropdown: `select[name=${quote(name)}]`,
+      checkbox: `input[type="checkbox"][name=${quote(name)}]`,
+      control: `input[name=${quote(name)}], select[name=${quote(name)}], textarea[name=${quote(name)}]`,
+      element: name,
+    };
+    return { locator: scope.locator(selectors[kind]), description: selectors[kind] };
+  },
+};
+
+/**
+ * Finds the buttons, fields, dropdowns, checkboxes and elements named in common
+ * steps by trying the strategies listed in LOCATOR_STRATEGIES in order. Projects
+ * can register their own strategies and list them there too.
+ */
+export class LocatorResolver {
+  private static instance: LocatorResolver;
+  private strategies: Map<string, LocatorStrategy> = new Map(Object.entries(BUILT_IN_STRATEGIES));
+
+  private constructor() {}
+
+  static getInstance(): LocatorResolver {
+    if (!LocatorResolver.instance) {
+      LocatorResolver.instance = new LocatorResolver();
+    }
+    return LocatorResolver.instance;
+  }
+
+  // Adds a strategy for LOCATOR_STRATEGIES to name, or replaces a built-in one
+  registerStrategy(name: string, strategy: LocatorStrategy): void {
+    this.strategies.set(name, strategy);
+  }
+
+  getStrategyNames(): string[] {
+    return [...this.strategies.keys()];
+  }
+
+  // Waits up to LOCATOR_TIMEOUT for one of the strategies to match, then explains why none did
+  async resolve(
+    scope: LocatorScope,
+    kind: ElementKind,
+    name: string,
+    timeout?: number
+  ): Promise<ResolvedLocator> {
+    return await this.resolveCandidates(kind, name, this.getCandidates(scope, kind, name), timeout);
+  }
+
+  /**
+   * A single pass that does not wait, for negative assertions. When nothing
+   * matches, the returned locator combines every strategy, so an element that
+   * appears later is still found.
+   */
+  async find(scope: LocatorScope, kind: ElementKind, name: string): Promise<ResolvedLocator> {
+    return await this.findCandidates(kind, name, this.getCandidates(scope, kind, name));
+  }
+
+  // The configured strategies in order; a null candidate means the strategy does not apply
+  getCandidates(scope: LocatorScope, kind: ElementKind, name: string): StrategyCandidate[] {
+    return configManager.getLocatorConfig().strategies.map(strategyName => {
+      const strategy = this.strategies.get(strategyName);
+      if (!strategy) {
+        throw new Error(
+          `Unknown locator strategy: ${strategyName}. ` +
+            `Registered strategies: ${this.getStrategyNames().join(', ')}`
+        );
+      }
+      return { strategy: strategyName, candidate: strategy(scope, kind, name) };
+    });
+  }
+
+  // Like resolve(), for candidates built elsewhere (e.g. element aliases)
+  async resolveCandidates(
+    kind: ElementKind,
+    name: string,
+    candidates: StrategyCandidate[],
+    timeout: number = configManager.getLocatorConfig().timeout
+  ): Promise<ResolvedLocator> {
+    const deadline = Date.now() + timeout;
+    let attempt = await this.tryCandidates(kind, candidates);
+    while (!attempt.resolved && Date.now() < deadline) {
+      await WaitHelper.sleep(100);
+      attempt = await this.tryCandidates(kind, candidates);
+    }
+
+    if (!attempt.resolved) {
+      throw new Error(this.formatFailure(kind, name, attempt.report));
+    }
+    return attempt.resolved;
+  }
+
+  // Like find(), for candidates built elsewhere
+  async findCandidates(
+    kind: ElementKind,
+    name: string,
+    candidates: StrategyCandidate[]
+  ): Promise<ResolvedLocator> {
+    const attempt = await this.tryCandidates(kind, candidates);
+    if (attempt.resolved) {
+      return attempt.resolved;
+    }
+    if (attempt.candidates.length === 0) {
+      throw new Error(this.formatFailure(kind, name, attempt.report));
+    }
+
+    const [first, ...others] = attempt.candidates;
+    return {
+      locator: others
+        .reduce((combined, { locator }) => combined.or(locator), first.locator)
+        .first(),
+      strategy: null,
+      description: attempt.candidates.map(candidate => candidate.description).join(' or '),
+      count: 0,
+    };
+  }
+
+  private async tryCandidates(
+    kind: ElementKind,
+    candidates: StrategyCandidate[]
+  ): Promise<ResolutionAttempt> {
+    const attempt: ResolutionAttempt = { candidates: [], report: [] };
+    let ambiguous: ResolvedLocator | undefined;
+
+    for (const { strategy, candidate } of candidates) {
+      if (!candidate) {
+        attempt.report.push(`${strategy}: does not apply to ${kind}s`);
+        continue;
+      }
+
+      let count: number;
+      try {
+        count = await candidate.locator.count();
+      } catch (error) {
+        const reason = (error as Error).message.split('\n')[0];
+        attempt.report.push(`${strategy}: ${candidate.description} is not valid (${reason})`);
+        continue;
+      }
+
+      attempt.candidates.push(candidate);
+      if (count === 1) {
+        attempt.resolved = {
+          locator: candidate.locator,
+          strategy,
+          description: candidate.description,
+          count,
+        };
+        return attempt;
+      }
+      if (count === 0) {
+        attempt.report.push(`${strategy}: ${candidate.description} matched nothing`);
+        continue;
+      }
+
+      // Several matches: a later, more specific strategy may match a single element
+      attempt.report.push(`${strategy}: ${candidate.description} matched ${count} elements`);
+      ambiguous = ambiguous || {
+        locator: candidate.locator,
+        strategy,
+        description: candidate.description,
+        count,
+      };
+    }
+
+    attempt.resolved = ambiguous;
+    return attempt;
+  }
+
+  private formatFailure(kind: ElementKind, name: string, report: string[]): string {
+    return `No ${kind} "${name}" found. Tried:\n${report.map(line => `  - ${line}`).join('\n')}`;
+  }
+}
+
+export default LocatorResolver.getInstance();
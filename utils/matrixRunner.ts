@@ -0,0 +1,95 @@
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import configManager from './configManager';
+import reportGenerator, { MATRIX_REPORT_DIR } from './cucumber-report';
+
+export interface MatrixEntry {
+  browser: string;
+  device: string;
+  label: string;
+}
+
+/**
+ * Runs the selected features once per browser (and optionally per device) and
+ * merges the per-run JSON results into a single cross-browser report.
+ *
+ * MATRIX_BROWSERS=chromium,firefox,webkit MATRIX_DEVICES=desktop,iPhone_12 npm run test:matrix -- --tags @smoke
+ */
+export class MatrixRunner {
+  getEntries(): MatrixEntry[] {
+    const browsers = this.parseList(
+      configManager.getEnvVar('MATRIX_BROWSERS', 'chromium,firefox,webkit')
+    );
+    // "desktop" means no device emulation
+    const devices = this.parseList(configManager.getEnvVar('MATRIX_DEVICES', 'desktop'));
+
+    return browsers.flatMap(browser =>
+      devices.map(device => {
+        const emulated = device.toLowerCase() === 'desktop' ? '' : device;
+        const label = emulated ? `${browser}-${emulated.replace(/\s+/g, '_')}` : browser;
+        return { browser, device: emulated, label };
+      })
+    );
+  }
+
+  async run(cucumberArgs: string[]): Promise<boolean> {
+    const entries = this.getEntries();
+    console.log(`Running cross-browser matrix: ${entries.map(entry => entry.label).join(', ')}`);
+
+    // Stale results from a previous matrix run would end up in the merged report
+    await fs.rm(MATRIX_REPORT_DIR, { recursive: true, force: true });
+    await fs.mkdir(MATRIX_REPORT_DIR, { recursive: true });
+
+    let allPassed = true;
+    for (const entry of entries) {
+      console.log(`\n=== ${entry.label} ===`);
+
+      const result = spawnSync(
+        'npx',
+        ['cucumber-js', '--config', 'cucumber.config.js', ...cucumberArgs],
+        {
+          stdio: 'inherit',
+          shell: process.platform === 'win32',
+          env: {
+            ...process.env,
+            BROWSER: entry.browser,
+            DEVICE: entry.device,
+            CUCUMBER_JSON_REPORT: path.join(MATRIX_REPORT_DIR, `${entry.label}.json`),
+          },
+        }
+      );
+
+      if (result.status !== 0) {
+        console.warn(
+          `Matrix run ${entry.label} finished with failures (exit code ${result.status})`
+        );
+        allPassed = false;
+      }
+    }
+
+    await reportGenerator.generateMatrixReport(
+      MATRIX_REPORT_DIR,
+      entries.map(entry => entry.label)
+    );
+    return allPassed;
+  }
+
+  private parseList(value: string): string[] {
+    return value
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+}
+
+// CLI execution
+if (require.main === module) {
+  new MatrixRunner()
+    .run(process.argv.slice(2))
+    .then(allPassed => process.exit(allPassed ? 0 : 1))
+    .catch(error => {
+      console.error('Matrix run failed:', error);
+      process.exit(1);
+    });
+}
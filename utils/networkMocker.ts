@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BrowserContext, Request, Route } from 'playwright';
+import { ApiMatcher, ApiSpec, RouteUrl } from './apiMatcher';
+import configManager from './configManager';
+import { FileHelper } from './fileHelper';
+
+interface RegisteredRoute {
+  context: BrowserContext;
+  url: RouteUrl;
+  handler: (route: Route) => Promise<void>;
+}
+
+interface DelayRule {
+  matcher: ApiSpec;
+  ms: number;
+}
+
+export interface Fixture {
+  path: string;
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Stubs backend responses from Gherkin on top of Playwright routing. Routes are
+ * registered on the browser context, so tabs and popups are covered too, and
+ * are removed again by `clearRoutes()` at the end of every scenario. APIs are
+ * given as `ApiMatcher` specs.
+ */
+export class NetworkMocker {
+  private static instance: NetworkMocker;
+  private routes: RegisteredRoute[] = [];
+  private delays: DelayRule[] = [];
+  private delayedRequests: WeakSet<Request> = new WeakSet();
+  private abortedRequests: WeakSet<Request> = new WeakSet();
+
+  private constructor() {}
+
+  static getInstance(): NetworkMocker {
+    if (!NetworkMocker.instance) {
+      NetworkMocker.instance = new NetworkMocker();
+    }
+    return NetworkMocker.instance;
+  }
+
+  async mockFixture(
+    context: BrowserContext,
+    api: string,
+    fixtureName: string,
+    status: number = 200
+  ): Promise<void> {
+    const fixture = await this.loadFixture(fixtureName);
+    const matcher = ApiMatcher.parse(api);
+
+    await this.addRoute(context, matcher, async route => {
+      await this.applyDelay(route.request());
+      await route.fulfill({ status, body: fixture.body, contentType: fixture.contentType });
+    });
+
+    if (configManager.isDebugMode()) {
+      console.log(`Mocked ${matcher.description} with ${fixture.path} (${status})`);
+    }
+  }
+
+  async mockNetworkError(context: BrowserContext, api: string): Promise<void> {
+    await this.addRoute(context, ApiMatcher.parse(api), async route => {
+      await this.applyDelay(route.request());
+      this.abortedRequests.add(route.request());
+      await route.abort('failed');
+    });
+  }
+
+  // Requests failed on purpose by mockNetworkError(), as opposed to real failures
+  isMockedFailure(request: Request): boolean {
+    return this.abortedRequests.has(request);
+  }
+
+  async mockDelay(context: BrowserContext, api: string, ms: number): Promise<void> {
+    const matcher = ApiMatcher.parse(api);
+    this.delays.push({ matcher, ms });
+
+    // Delays whatever answers the request next: another mock or the real backend
+    await this.addRoute(context, matcher, async route => {
+      await this.applyDelay(route.request());
+      await route.fallback();
+    });
+  }
+
+  async clearRoutes(): Promise<void> {
+    for (const { context, url, handler } of this.routes) {
+      try {
+        await context.unroute(url, handler);
+      } catch {
+        // The context may already be closed
+      }
+    }
+    this.routes = [];
+    this.delays = [];
+  }
+
+  /**
+   * Fixtures live in FIXTURES_DIR (default `fixtures/`); a file in
+   * `fixtures/<env>/` overrides the shared one. The extension may be omitted
+   * for JSON fixtures.
+   */
+  async loadFixture(name: string): Promise<Fixture> {
+    const fixturesDir = configManager.getEnvVar('FIXTURES_DIR', 'fixtures');
+    const fileNames = path.extname(name) ? [name] : [name, `${name}.json`];
+    const candidates = [
+      path.join(fixturesDir, configManager.getEnvironment()),
+      fixturesDir,
+    ].flatMap(dir => fileNames.map(fileName => path.join(dir, fileName)));
+
+    for (const candidate of candidates) {
+      try {
+        const body = await fs.readFile(candidate);
+        return { path: candidate, body, contentType: FileHelper.getMediaType(candidate) };
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    throw new Error(`Fixture "${name}" not found. Looked in: ${candidates.join(', ')}`);
+  }
+
+  private async addRoute(
+    context: BrowserContext,
+    matcher: ApiSpec,
+    respond: (route: Route) => Promise<void>
+  ): Promise<void> {
+    const handler = async (route: Route): Promise<void> => {
+      if (matcher.method && route.request().method() !== matcher.method) {
+        await route.fallback();
+        return;
+      }
+      await respond(route);
+    };
+
+    await context.route(matcher.url, handler);
+    this.routes.push({ context, url: matcher.url, handler });
+  }
+
+  // A request is delayed once, however many of our routes it passes through
+  private async applyDelay(request: Request): Promise<void> {
+    if (this.delayedRequests.has(request)) {
+      return;
+    }
+    const rule = this.delays.find(delay =>
+      ApiMatcher.matches(delay.matcher, request.method(), request.url())
+    );
+    if (rule) {
+      this.delayedRequests.add(request);
+      await new Promise(resolve => setTimeout(resolve, rule.ms));
+    }
+  }
+}
+
+export default NetworkMocker.getInstance();
@@ -0,0 +1,39 @@
+/**
+ * The framework's notion of "now". Normally the real time; once a scenario sets
+ * the current date it stays frozen at that moment, so DateHelper, TestDataManager
+ * (and faker) agree with the browser's `page.clock`. Reset after every scenario.
+ */
+export class TestClock {
+  private static instance: TestClock;
+  private frozenTime: number | null = null;
+
+  private constructor() {}
+
+  static getInstance(): TestClock {
+    if (!TestClock.instance) {
+      TestClock.instance = new TestClock();
+    }
+    return TestClock.instance;
+  }
+
+  now(): Date {
+    return new Date(this.frozenTime ?? Date.now());
+  }
+
+  freeze(date: Date): void {
+    if (isNaN(date.getTime())) {
+      throw new Error('Cannot set the test clock to an invalid date');
+    }
+    this.frozenTime = date.getTime();
+  }
+
+  isFrozen(): boolean {
+    return this.frozenTime !== null;
+  }
+
+  reset(): void {
+    this.frozenTime = null;
+  }
+}
+
+export default TestClock.getInstance();
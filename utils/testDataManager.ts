@@ -1,4 +1,6 @@
 import { faker } from '@faker-js/faker';
+import { DateHelper } from './dateHelper';
+import testClock from './testClock';
 
 // Deep Partial utility type for nested objects
 type DeepPartial<T> = {
@@ -140,7 +142,10 @@ class TestDataManager {
   private static instance: TestDataManager;
   private generatedData: Map<string, any> = new Map();
 
-  private constructor() {}
+  private constructor() {
+    // Birthdates, effective dates etc. follow the test clock ("the current date is ...")
+    faker.setDefaultRefDate(() => testClock.now());
+  }
 
   static getInstance(): TestDataManager {
     if (!TestDataManager.instance) {
@@ -154,7 +159,7 @@ class TestDataManager {
     const firstName = faker.person.firstName();
     const lastName = faker.person.lastName();
     const dateOfBirth = faker.date.birthdate({ min: 18, max: 80, mode: 'age' });
-    const age = new Date().getFullYear() - dateOfBirth.getFullYear();
+    const age = DateHelper.calculateAge(dateOfBirth);
 
     const customer: InsuranceCustomer = {
       personalInfo: {
@@ -221,7 +226,7 @@ class TestDataManager {
       'Subaru',
     ];
     const make = faker.helpers.arrayElement(makes);
-    const year = faker.number.int({ min: 2010, max: new Date().getFullYear() });
+    const year = faker.number.int({ min: 2010, max: testClock.now().getFullYear() });
 
     const vehicle: VehicleInfo = {
       make,
@@ -248,7 +253,7 @@ class TestDataManager {
 
   // Property Data Generation
   generateProperty(overrides: DeepPartial<PropertyInfo> = {}): PropertyInfo {
-    const yearBuilt = faker.number.int({ min: 1950, max: new Date().getFullYear() });
+    const yearBuilt = faker.number.int({ min: 1950, max: testClock.now().getFullYear() });
     const squareFootage = faker.number.int({ min: 800, max: 5000 });
 
     const property: PropertyInfo = {